@@ -384,7 +384,8 @@ executeButton.addEventListener("click", async () => {
 
       // Transform all code to ES5 (handles both ES5 and ES6+ input)
       const ast = transformToES5(code);
-      const result = interpreter.evaluate(ast);
+      // Run in slices so long-running scripts don't freeze the tab
+      const result = await interpreter.evaluateAsync(ast);
 
       // Handle promises (from async functions)
       if (result instanceof Promise) {
@@ -0,0 +1,82 @@
+import type * as t from "@babel/types";
+
+/**
+ * Assigns operation costs that are charged against the `maxOps`/`maxTotalOps` budgets.
+ *
+ * Without a cost model every evaluated AST node costs one operation and host
+ * functions are free, no matter how much work they do.
+ */
+export interface CostModel {
+   /**
+    * Cost per evaluated node type. Keep costs positive: a loop whose nodes
+    * cost nothing never exhausts a budget.
+    */
+   nodes?: Partial<Record<t.Node["type"], number>>;
+   /** Cost of node types not listed in `nodes` (default: 1) */
+   defaultNodeCost?: number;
+   /**
+    * Extra cost charged before sandboxed code calls (or constructs with) a host function,
+    * on top of the call node's own cost. `thisArg` is undefined for plain calls and `new`.
+    */
+   hostCall?: (fn: (...args: any[]) => any, thisArg: any, args: any[]) => number;
+}
+
+/**
+ * Number of elements a native function processes per operation, relative to
+ * interpreted code running the same loop
+ */
+const NATIVE_ELEMENTS_PER_OP = 10;
+
+const sortMethods = new Set<(...args: any[]) => any>([Array.prototype.sort]);
+
+/**
+ * Size of a value in elements: array/string length, otherwise 0
+ */
+function sizeOf(value: any): number {
+   if (typeof value === "string" || Array.isArray(value)) {
+      return value.length;
+   }
+   return 0;
+}
+
+/**
+ * Built-in cost model approximating real execution cost. Calls and allocations cost more
+ * than reading a literal, and host functions are charged by the size of the arrays and
+ * strings they receive, since most natives (map, join, indexOf, ...) are linear in them.
+ */
+export const defaultCostModel: CostModel = {
+   nodes: {
+      // Plain reads
+      Identifier: 1,
+      StringLiteral: 1,
+      NumericLiteral: 1,
+      BooleanLiteral: 1,
+      NullLiteral: 1,
+      ThisExpression: 1,
+
+      // Allocations and lookups
+      RegExpLiteral: 5,
+      ObjectExpression: 3,
+      ArrayExpression: 3,
+      MemberExpression: 2,
+      OptionalMemberExpression: 2,
+      FunctionExpression: 3,
+      ArrowFunctionExpression: 3,
+
+      // Calls set up a scope, bind arguments and hoist declarations
+      CallExpression: 5,
+      OptionalCallExpression: 5,
+      NewExpression: 8,
+   },
+   defaultNodeCost: 1,
+   hostCall: (fn, thisArg, args) => {
+      let size = sizeOf(thisArg);
+      for (const arg of args) {
+         size += sizeOf(arg);
+      }
+      if (sortMethods.has(fn)) {
+         size *= Math.log2(size + 1);
+      }
+      return Math.ceil(size / NATIVE_ELEMENTS_PER_OP);
+   },
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { CoverageCollector } from "./coverage";
+import { Interpreter } from "./interpreter";
+import { parse } from "./parser";
+import { transformToES5 } from "./transform";
+
+function run(
+   coverage: CoverageCollector,
+   code: string,
+   filename = "script.js",
+   globals: Record<string, any> = {},
+): any {
+   return new Interpreter(globals, { hooks: coverage.hooks }).evaluate(parse(code, filename));
+}
+
+describe("Coverage", () => {
+   it("should count statements and functions", () => {
+      const coverage = new CoverageCollector();
+      const code = [
+         "function used(x) {",
+         "  return x + 1;",
+         "}",
+         "function unused() {",
+         "  return 0;",
+         "}",
+         "used(1);",
+         "used(2);",
+      ].join("\n");
+      run(coverage, code);
+
+      const file = coverage.toJSON()["script.js"];
+      expect(file.path).toBe("script.js");
+      expect(Object.values(file.fnMap).map((fn) => [fn.name, fn.line])).toEqual([
+         ["used", 1],
+         ["unused", 4],
+      ]);
+      expect(file.f).toEqual({ 0: 2, 1: 0 });
+      const statements = Object.entries(file.statementMap).map(([id, loc]) => [loc.start.line, file.s[id]]);
+      expect(statements).toEqual([
+         [2, 2],
+         [5, 0],
+         [7, 1],
+         [8, 1],
+      ]);
+   });
+
+   it("should count taken paths of if, conditional and logical branches", () => {
+      const coverage = new CoverageCollector();
+      const code = `
+         function check(x) {
+            if (x > 0) {
+               return x > 5 ? "big" : "small";
+            }
+            return x === 0 || x === -1 || "negative";
+         }
+         check(10); check(1); check(2); check(0);
+      `;
+      run(coverage, code);
+
+      const file = coverage.toJSON()["script.js"];
+      const branches = Object.entries(file.branchMap).map(([id, branch]) => [branch.type, file.b[id]]);
+      expect(branches).toEqual([
+         ["if", [3, 1]],
+         ["cond-expr", [1, 2]],
+         ["binary-expr", [1, 0, 0]],
+      ]);
+   });
+
+   it("should count switch cases, including fall-through", () => {
+      const coverage = new CoverageCollector();
+      const code = `
+         function kind(x) {
+            var result = "";
+            switch (x) {
+               case 1:
+               case 2:
+                  result += "small";
+               case 3:
+                  result += "!";
+                  break;
+               default:
+                  result = "other";
+            }
+            return result;
+         }
+         [kind(1), kind(2), kind(3), kind(3)];
+      `;
+      expect(run(coverage, code)).toEqual(["small!", "small!", "!", "!"]);
+
+      const file = coverage.toJSON()["script.js"];
+      expect(Object.values(file.branchMap).map((branch) => branch.type)).toEqual(["switch"]);
+      expect(file.b[0]).toEqual([1, 2, 4, 0]);
+   });
+
+   it("should merge runs of the same file parsed again", () => {
+      const coverage = new CoverageCollector();
+      const code = "function pick(flag) {\n  return flag ? 'a' : 'b';\n}\npick(input);\n";
+      run(coverage, code, "pick.js", { input: true });
+      run(coverage, code, "pick.js", { input: false });
+      run(coverage, "1;", "other.js");
+
+      const data = coverage.toJSON();
+      expect(Object.keys(data)).toEqual(["pick.js", "other.js"]);
+      expect(data["pick.js"].f).toEqual({ 0: 2 });
+      expect(data["pick.js"].b).toEqual({ 0: [1, 1] });
+   });
+
+   it("should map transformed code back to the original source", () => {
+      const coverage = new CoverageCollector();
+      const code = ["const greet = (name = 'you') => {", "  return 'hi ' + name;", "};", "greet();"].join("\n");
+      const interpreter = new Interpreter({}, { hooks: coverage.hooks });
+      expect(interpreter.evaluate(transformToES5(code, { filename: "greet.js" }))).toBe("hi you");
+
+      const file = coverage.toJSON()["greet.js"];
+      const lines = Object.entries(file.statementMap).map(([id, loc]) => [loc.start.line, file.s[id]]);
+      expect(lines).toContainEqual([2, 1]);
+      expect(lines).toContainEqual([4, 1]);
+      expect(Object.values(file.f)).toContain(1);
+   });
+
+   it("should export LCOV", () => {
+      const coverage = new CoverageCollector();
+      run(coverage, "function f(a) {\n  return a && 1;\n}\nf(0);\nif (false) f(1);\n", "lib/f.js");
+
+      expect(coverage.toLcov()).toBe(
+         [
+            "TN:",
+            "SF:lib/f.js",
+            "FN:1,f",
+            "FNF:1",
+            "FNH:1",
+            "FNDA:1,f",
+            "DA:2,1",
+            "DA:4,1",
+            "DA:5,1",
+            "LF:3",
+            "LH:3",
+            "BRDA:2,0,0,1",
+            "BRDA:2,0,1,0",
+            "BRDA:5,1,0,0",
+            "BRDA:5,1,1,1",
+            "BRF:4",
+            "BRH:2",
+            "end_of_record",
+            "",
+         ].join("\n"),
+      );
+   });
+});
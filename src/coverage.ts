@@ -0,0 +1,364 @@
+import type * as t from "@babel/types";
+import { FUNCTION_TYPES, type InterpreterHooks } from "./interpreter.js";
+
+/**
+ * Line (1-based) and column (0-based) in a source file
+ */
+export interface CoveragePosition {
+   line: number;
+   column: number;
+}
+
+export interface CoverageRange {
+   start: CoveragePosition;
+   end: CoveragePosition;
+}
+
+/**
+ * Coverage of one source file in Istanbul's format, as nyc and vitest's istanbul provider write it
+ */
+export interface FileCoverageData {
+   path: string;
+   statementMap: Record<string, CoverageRange>;
+   fnMap: Record<string, { name: string; decl: CoverageRange; loc: CoverageRange; line: number }>;
+   branchMap: Record<string, { type: string; loc: CoverageRange; locations: CoverageRange[]; line: number }>;
+   /** Hits per statement */
+   s: Record<string, number>;
+   /** Calls per function */
+   f: Record<string, number>;
+   /** Hits per branch path */
+   b: Record<string, number[]>;
+}
+
+/**
+ * Istanbul coverage of all files, keyed by path
+ */
+export type CoverageMapData = Record<string, FileCoverageData>;
+
+interface FileState {
+   data: FileCoverageData;
+   /** Ids of counted statements, functions and branches by source range, shared by re-parsed copies */
+   ids: Map<string, string>;
+}
+
+/** Statements that run no code of their own */
+const UNCOUNTED_STATEMENTS = new Set([
+   "BlockStatement",
+   "EmptyStatement",
+   "FunctionDeclaration",
+   "ClassDeclaration",
+   "ImportDeclaration",
+   "ExportNamedDeclaration",
+   "ExportDefaultDeclaration",
+   "ExportAllDeclaration",
+]);
+
+function isStatement(node: t.Node): boolean {
+   return (
+      (node.type.endsWith("Statement") || node.type.endsWith("Declaration")) && !UNCOUNTED_STATEMENTS.has(node.type)
+   );
+}
+
+function range(loc: t.SourceLocation): CoverageRange {
+   return {
+      start: { line: loc.start.line, column: loc.start.column },
+      end: { line: loc.end.line, column: loc.end.column },
+   };
+}
+
+function rangeKey(loc: t.SourceLocation): string {
+   return `${loc.start.line}:${loc.start.column}-${loc.end.line}:${loc.end.column}`;
+}
+
+/**
+ * Operands of a chain of logical operators (a && b || c), which Istanbul counts as one branch
+ */
+function logicalLeaves(node: t.Expression, leaves: t.Expression[] = []): t.Expression[] {
+   if (node.type === "LogicalExpression") {
+      logicalLeaves(node.left, leaves);
+      logicalLeaves(node.right, leaves);
+   } else {
+      leaves.push(node);
+   }
+   return leaves;
+}
+
+/**
+ * Records statement, branch and function coverage of sandboxed code through interpreter hooks.
+ * Sources are keyed by the filename given to parse() or transformToES5() (`<anonymous>`
+ * without one); scripts that are parsed again add to the counts of the same file.
+ *
+ * ```typescript
+ * const coverage = new CoverageCollector();
+ * const interpreter = new Interpreter(globals, { hooks: coverage.hooks });
+ * interpreter.evaluate(parse(code, "templates/welcome.js"));
+ * fs.writeFileSync("coverage/lcov.info", coverage.toLcov());
+ * ```
+ */
+export class CoverageCollector {
+   /** Hooks to pass to the interpreters whose code is covered */
+   readonly hooks: InterpreterHooks;
+   private files = new Map<string, FileState>();
+   private programs = new WeakSet<t.Program>();
+   private enterProbes = new WeakMap<t.Node, (() => void)[]>();
+   private exitProbes = new WeakMap<t.Node, (value: any) => void>();
+   /** Logical expressions nested in a chain counted by its outermost expression */
+   private chained = new WeakSet<t.Node>();
+
+   constructor() {
+      this.hooks = {
+         onEnterNode: (node) => {
+            if (node.type === "Program") this.register(node);
+            const probes = this.enterProbes.get(node);
+            if (probes) {
+               for (const probe of probes) probe();
+            }
+         },
+         onExitNode: (node, value, threw) => {
+            if (!threw) this.exitProbes.get(node)?.(value);
+         },
+      };
+   }
+
+   /**
+    * Coverage collected so far, in Istanbul's JSON format (coverage-final.json)
+    */
+   toJSON(): CoverageMapData {
+      const result: CoverageMapData = {};
+      for (const [path, { data }] of this.files) {
+         result[path] = JSON.parse(JSON.stringify(data));
+      }
+      return result;
+   }
+
+   /**
+    * Coverage collected so far in LCOV format (lcov.info), with line counts taken from statements
+    */
+   toLcov(): string {
+      const out: string[] = [];
+      for (const { data } of this.files.values()) {
+         out.push("TN:", `SF:${data.path}`);
+
+         const functions = Object.keys(data.fnMap);
+         for (const id of functions) {
+            out.push(`FN:${data.fnMap[id].line},${data.fnMap[id].name}`);
+         }
+         out.push(`FNF:${functions.length}`, `FNH:${functions.filter((id) => data.f[id] > 0).length}`);
+         for (const id of functions) {
+            out.push(`FNDA:${data.f[id]},${data.fnMap[id].name}`);
+         }
+
+         const lines = new Map<number, number>();
+         for (const [id, { start }] of Object.entries(data.statementMap)) {
+            lines.set(start.line, Math.max(lines.get(start.line) ?? 0, data.s[id]));
+         }
+         const sortedLines = [...lines].sort(([a], [b]) => a - b);
+         for (const [line, count] of sortedLines) {
+            out.push(`DA:${line},${count}`);
+         }
+         out.push(`LF:${sortedLines.length}`, `LH:${sortedLines.filter(([, count]) => count > 0).length}`);
+
+         let branches = 0;
+         let covered = 0;
+         for (const [id, { line }] of Object.entries(data.branchMap)) {
+            data.b[id].forEach((count, path) => {
+               out.push(`BRDA:${line},${id},${path},${count}`);
+               branches++;
+               if (count > 0) covered++;
+            });
+         }
+         out.push(`BRF:${branches}`, `BRH:${covered}`, "end_of_record");
+      }
+      return out.length > 0 ? `${out.join("\n")}\n` : "";
+   }
+
+   /**
+    * Add the statements, functions and branches of a program when it first runs
+    */
+   private register(program: t.Program): void {
+      if (this.programs.has(program)) return;
+      this.programs.add(program);
+
+      // Transformed programs keep locations on their statements only
+      const loc = program.loc ?? program.body.find((statement) => statement.loc)?.loc;
+      const path = loc?.filename ?? "<anonymous>";
+      let file = this.files.get(path);
+      if (!file) {
+         file = {
+            data: { path, statementMap: {}, fnMap: {}, branchMap: {}, s: {}, f: {}, b: {} },
+            ids: new Map(),
+         };
+         this.files.set(path, file);
+      }
+      this.visit(program, file);
+   }
+
+   private visit(node: any, file: FileState): void {
+      if (Array.isArray(node)) {
+         for (const child of node) this.visit(child, file);
+         return;
+      }
+      if (node === null || typeof node !== "object" || typeof node.type !== "string") return;
+
+      // Nodes without a location, like helpers of transformed code, are not counted
+      if (node.loc) this.instrument(node, file);
+      for (const key in node) {
+         if (key !== "loc" && key !== "extra" && !key.endsWith("Comments")) this.visit(node[key], file);
+      }
+   }
+
+   private instrument(node: t.Node, file: FileState): void {
+      const loc = node.loc as t.SourceLocation;
+      if (isStatement(node)) {
+         this.onEnter(node, this.addStatement(file, loc));
+      }
+
+      if (FUNCTION_TYPES.has(node.type)) {
+         const fn = node as t.Function;
+         const id = this.addFunction(file, fn, loc);
+         this.onEnter(fn.body, () => file.data.f[id]++);
+         // Expression bodies of arrow functions are statements of their own
+         if (fn.body.type !== "BlockStatement" && fn.body.loc) {
+            this.onEnter(fn.body, this.addStatement(file, fn.body.loc));
+         }
+      }
+
+      switch (node.type) {
+         case "IfStatement":
+         case "ConditionalExpression": {
+            const paths = [node.consequent, node.alternate ?? node];
+            const counts = this.addBranch(
+               file,
+               node.type === "IfStatement" ? "if" : "cond-expr",
+               loc,
+               paths.map((path) => path.loc ?? loc),
+            );
+            this.exitProbes.set(node.test, (value) => counts[value ? 0 : 1]++);
+            break;
+         }
+
+         case "LogicalExpression": {
+            if (this.chained.has(node)) break;
+            const leaves = logicalLeaves(node);
+            const counts = this.addBranch(
+               file,
+               "binary-expr",
+               loc,
+               leaves.map((leaf) => leaf.loc ?? loc),
+            );
+            leaves.forEach((leaf, i) => {
+               this.onEnter(leaf, () => counts[i]++);
+            });
+            for (const side of [node.left, node.right]) {
+               this.markChained(side);
+            }
+            break;
+         }
+
+         case "SwitchStatement": {
+            // A case is taken when its test matches, or when the case before falls through into it
+            const counts = this.addBranch(
+               file,
+               "switch",
+               loc,
+               node.cases.map((c) => c.loc ?? loc),
+            );
+            let discriminant: any;
+            let matched = -1;
+            this.exitProbes.set(node.discriminant, (value) => {
+               discriminant = value;
+               matched = -1;
+            });
+            node.cases.forEach((c, i) => {
+               if (c.test) {
+                  this.exitProbes.set(c.test, (value) => {
+                     if (value === discriminant) {
+                        counts[i]++;
+                        matched = i;
+                     }
+                  });
+               }
+               if (c.consequent.length > 0) {
+                  this.onEnter(c.consequent[0], () => {
+                     if (matched !== i) counts[i]++;
+                     matched = -1;
+                  });
+               }
+            });
+            break;
+         }
+      }
+   }
+
+   /**
+    * Mark the nested operators of a logical chain as counted by its outermost expression
+    */
+   private markChained(node: t.Expression): void {
+      if (node.type !== "LogicalExpression") return;
+      this.chained.add(node);
+      this.markChained(node.left);
+      this.markChained(node.right);
+   }
+
+   private onEnter(node: t.Node, probe: () => void): void {
+      const probes = this.enterProbes.get(node);
+      if (probes) {
+         probes.push(probe);
+      } else {
+         this.enterProbes.set(node, [probe]);
+      }
+   }
+
+   /**
+    * Id of a statement, function or branch at a range, or undefined when a new one is needed
+    */
+   private existingId(file: FileState, kind: string, loc: t.SourceLocation): string | undefined {
+      return file.ids.get(`${kind} ${rangeKey(loc)}`);
+   }
+
+   private newId(file: FileState, kind: string, loc: t.SourceLocation, map: object): string {
+      const id = String(Object.keys(map).length);
+      file.ids.set(`${kind} ${rangeKey(loc)}`, id);
+      return id;
+   }
+
+   /**
+    * Counter of the statement at a range
+    */
+   private addStatement(file: FileState, loc: t.SourceLocation): () => void {
+      let id = this.existingId(file, "statement", loc);
+      if (id === undefined) {
+         id = this.newId(file, "statement", loc, file.data.statementMap);
+         file.data.statementMap[id] = range(loc);
+         file.data.s[id] = 0;
+      }
+      const statement = id;
+      return () => file.data.s[statement]++;
+   }
+
+   private addFunction(file: FileState, fn: t.Function, loc: t.SourceLocation): string {
+      const existing = this.existingId(file, "function", loc);
+      if (existing !== undefined) return existing;
+
+      const id = this.newId(file, "function", loc, file.data.fnMap);
+      const key = "key" in fn && fn.key.type === "Identifier" && !fn.computed ? fn.key.name : undefined;
+      const name = ("id" in fn && fn.id?.name) || key || `(anonymous_${id})`;
+      const decl = ("id" in fn && fn.id?.loc) || ("key" in fn && fn.key.loc) || loc;
+      file.data.fnMap[id] = { name, decl: range(decl), loc: range(loc), line: loc.start.line };
+      file.data.f[id] = 0;
+      return id;
+   }
+
+   /**
+    * Counters of the paths of the branch at a range
+    */
+   private addBranch(file: FileState, type: string, loc: t.SourceLocation, locations: t.SourceLocation[]): number[] {
+      let id = this.existingId(file, "branch", loc);
+      if (id === undefined) {
+         id = this.newId(file, "branch", loc, file.data.branchMap);
+         file.data.branchMap[id] = { type, loc: range(loc), locations: locations.map(range), line: loc.start.line };
+         file.data.b[id] = locations.map(() => 0);
+      }
+      return file.data.b[id];
+   }
+}
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+// Debug adapter executable: speaks the Debug Adapter Protocol over stdio, or over TCP with --port <port>
+import { createDebugServer, runDebugAdapter } from "./dap.js";
+
+const portIndex = process.argv.indexOf("--port");
+if (portIndex >= 0) {
+   const port = Number(process.argv[portIndex + 1]);
+   createDebugServer().listen(port, () => {
+      console.error(`JailJS debug adapter listening on port ${port}`);
+   });
+} else {
+   runDebugAdapter();
+}
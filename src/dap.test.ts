@@ -0,0 +1,311 @@
+// @vitest-environment node
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { connect } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough, type Readable, type Writable } from "node:stream";
+import { afterAll, describe, expect, it } from "vitest";
+import { connectDebugAdapter, createDebugServer, type DebugAdapterOptions } from "./dap";
+
+const dir = mkdtempSync(join(tmpdir(), "jailjs-dap-"));
+
+function writeScript(name: string, code: string): string {
+   const path = join(dir, name);
+   writeFileSync(path, code);
+   return path;
+}
+
+/**
+ * Scripted Debug Adapter Protocol client
+ */
+class TestClient {
+   private seq = 1;
+   private messages: any[] = [];
+   private outputs: string[] = [];
+   private waiters: { match: (message: any) => boolean; resolve: (message: any) => void }[] = [];
+
+   constructor(
+      private input: Writable,
+      output: Readable,
+   ) {
+      let buffer = Buffer.alloc(0);
+      output.on("data", (chunk: Buffer) => {
+         buffer = Buffer.concat([buffer, chunk]);
+         while (true) {
+            const match = /^Content-Length: (\d+)\r\n\r\n/.exec(buffer.toString("latin1"));
+            const end = match ? match[0].length + Number(match[1]) : 0;
+            if (!match || buffer.length < end) return;
+            this.receive(JSON.parse(buffer.subarray(match[0].length, end).toString("utf8")));
+            buffer = buffer.subarray(end);
+         }
+      });
+   }
+
+   static connect(options: DebugAdapterOptions = {}): TestClient {
+      const toAdapter = new PassThrough();
+      const fromAdapter = new PassThrough();
+      connectDebugAdapter(toAdapter, fromAdapter, options);
+      return new TestClient(toAdapter, fromAdapter);
+   }
+
+   request(command: string, args?: object): Promise<any> {
+      const seq = this.seq++;
+      const body = JSON.stringify({ seq, type: "request", command, arguments: args });
+      this.input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+      return this.next((message) => message.type === "response" && message.request_seq === seq);
+   }
+
+   event(event: string): Promise<any> {
+      return this.next((message) => message.type === "event" && message.event === event);
+   }
+
+   output(): string {
+      return this.outputs.join("");
+   }
+
+   /**
+    * Start a session: initialize, launch and configure breakpoints, then let the script run
+    */
+   async launch(program: string, breakpoints: number[] = [], launchArgs: object = {}): Promise<void> {
+      const initialized = this.event("initialized");
+      await this.request("initialize", { adapterID: "jailjs" });
+      await initialized;
+      await this.request("launch", { program, ...launchArgs });
+      if (breakpoints.length > 0) {
+         const response = await this.request("setBreakpoints", {
+            source: { path: program },
+            breakpoints: breakpoints.map((line) => ({ line })),
+         });
+         expect(response.body.breakpoints.every((breakpoint: any) => breakpoint.verified)).toBe(true);
+      }
+      await this.request("configurationDone");
+   }
+
+   private next(match: (message: any) => boolean): Promise<any> {
+      const seen = this.messages.findIndex(match);
+      if (seen >= 0) return Promise.resolve(this.messages.splice(seen, 1)[0]);
+      return new Promise((resolve) => this.waiters.push({ match, resolve }));
+   }
+
+   private receive(message: any): void {
+      if (message.event === "output") this.outputs.push(message.body.output);
+      const waiter = this.waiters.findIndex((candidate) => candidate.match(message));
+      if (waiter >= 0) {
+         this.waiters.splice(waiter, 1)[0].resolve(message);
+      } else {
+         this.messages.push(message);
+      }
+   }
+}
+
+describe("Debug Adapter", () => {
+   const script = writeScript(
+      "main.js",
+      [
+         "function add(a, b) {",
+         "  const sum = a + b;",
+         "  return sum;",
+         "}",
+         "var total = 0;",
+         "for (var i = 0; i < 3; i++) {",
+         "  total = add(total, i);",
+         "}",
+         "console.log('total', total);",
+      ].join("\n"),
+   );
+
+   afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+   });
+
+   it("should stop at breakpoints with stack frames, scopes and variables", async () => {
+      const client = TestClient.connect();
+      await client.launch(script, [2]);
+
+      const stopped = await client.event("stopped");
+      expect(stopped.body).toMatchObject({ reason: "breakpoint", threadId: 1, hitBreakpointIds: [1] });
+
+      const { body: trace } = await client.request("stackTrace", { threadId: 1 });
+      expect(trace.stackFrames.map((frame: any) => [frame.name, frame.line, frame.column, frame.source.path])).toEqual([
+         ["add", 2, 3, script],
+         ["<top-level>", 7, 11, script],
+      ]);
+
+      const { body: scopes } = await client.request("scopes", { frameId: 0 });
+      expect(scopes.scopes.map((scope: any) => scope.name)).toEqual(["Block", "Local", "Global"]);
+      const { body: locals } = await client.request("variables", {
+         variablesReference: scopes.scopes[1].variablesReference,
+      });
+      expect(locals.variables).toEqual(
+         expect.arrayContaining([
+            { name: "a", value: "0", variablesReference: 0 },
+            { name: "b", value: "0", variablesReference: 0 },
+         ]),
+      );
+
+      const { body: evaluated } = await client.request("evaluate", {
+         expression: "({ sum: a + b, list: [a, b] })",
+         frameId: 0,
+      });
+      expect(evaluated.result).toBe("Object");
+      const { body: properties } = await client.request("variables", {
+         variablesReference: evaluated.variablesReference,
+      });
+      expect(properties.variables.map((variable: any) => `${variable.name}=${variable.value}`)).toEqual([
+         "sum=0",
+         "list=Array(2)",
+      ]);
+
+      await client.request("setBreakpoints", { source: { path: script }, breakpoints: [] });
+      await client.request("continue", { threadId: 1 });
+      expect((await client.event("exited")).body).toEqual({ exitCode: 0 });
+      await client.event("terminated");
+      expect(client.output()).toBe("total 3\n");
+   });
+
+   it("should step over, into and out of functions", async () => {
+      const client = TestClient.connect();
+      await client.launch(script, [7]);
+      await client.event("stopped");
+      await client.request("setBreakpoints", { source: { path: script }, breakpoints: [] });
+
+      const lines: string[] = [];
+      for (const command of ["stepIn", "next", "stepOut", "next"]) {
+         await client.request(command, { threadId: 1 });
+         const stopped = await client.event("stopped");
+         const { body } = await client.request("stackTrace", { threadId: 1 });
+         lines.push(`${stopped.body.reason}:${body.stackFrames[0].name}:${body.stackFrames[0].line}`);
+      }
+      expect(lines).toEqual(["step:add:2", "step:add:3", "step:<top-level>:7", "step:<top-level>:7"]);
+
+      await client.request("disconnect");
+   });
+
+   it("should stop on entry and on debugger statements", async () => {
+      const program = writeScript("debugger.js", "var x = 1;\ndebugger;\nx = 2;\n");
+      const client = TestClient.connect();
+      await client.launch(program, [], { stopOnEntry: true });
+
+      expect((await client.event("stopped")).body.reason).toBe("entry");
+      await client.request("continue", { threadId: 1 });
+      const stopped = await client.event("stopped");
+      expect(stopped.body).toMatchObject({ reason: "breakpoint", description: "Paused on debugger statement" });
+      const { body } = await client.request("evaluate", { expression: "x", frameId: 0 });
+      expect(body.result).toBe("1");
+      await client.request("continue", { threadId: 1 });
+      await client.event("terminated");
+   });
+
+   it("should map transformed scripts back to the original source", async () => {
+      const program = writeScript(
+         "modern.js",
+         [
+            "class Counter {",
+            "  increment(by = 1) {",
+            "    return by * 2;",
+            "  }",
+            "}",
+            "new Counter().increment();",
+         ].join("\n"),
+      );
+      const client = TestClient.connect();
+      await client.launch(program, [3], { transform: true });
+
+      await client.event("stopped");
+      const { body } = await client.request("stackTrace", { threadId: 1 });
+      expect(body.stackFrames.map((frame: any) => [frame.name, frame.line])).toEqual([
+         ["increment", 3],
+         ["<top-level>", 6],
+      ]);
+      await client.request("continue", { threadId: 1 });
+      await client.event("terminated");
+   });
+
+   it("should report uncaught errors with the interpreted stack", async () => {
+      const program = writeScript("throws.js", "function fail() {\n  null.x;\n}\nfail();\n");
+      const client = TestClient.connect();
+      await client.launch(program);
+
+      expect((await client.event("exited")).body).toEqual({ exitCode: 1 });
+      expect(client.output()).toMatch(/^Uncaught TypeError: .*\n {4}at fail \(2:3\)\n {4}at <top-level> \(4:1\)\n$/);
+   });
+
+   it("should pause running scripts on request", async () => {
+      const program = writeScript("loop.js", "var n = 0;\nconsole.log('looping');\nwhile (true) {\n  n++;\n}\n");
+      const client = TestClient.connect({ sliceOps: 100 });
+      await client.launch(program);
+      await client.event("output");
+
+      await client.request("pause", { threadId: 1 });
+      expect((await client.event("stopped")).body.reason).toBe("pause");
+      const { body } = await client.request("evaluate", { expression: "typeof n", frameId: 0 });
+      expect(body.result).toBe('"number"');
+      await client.request("disconnect");
+   });
+
+   it("should serve sessions over TCP", async () => {
+      const server = createDebugServer();
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as { port: number };
+      const socket = connect(port, "127.0.0.1");
+      const client = new TestClient(socket, socket);
+
+      await client.launch(script);
+      await client.event("terminated");
+      expect(client.output()).toBe("total 3\n");
+      const failed = await client.request("launch", { program: script });
+      expect(failed).toMatchObject({ success: false, message: "A program was already launched" });
+
+      socket.destroy();
+      await new Promise((resolve) => server.close(resolve));
+   });
+
+   it("should end only the session that sent a malformed message", async () => {
+      const toAdapter = new PassThrough();
+      const fromAdapter = new PassThrough();
+      connectDebugAdapter(toAdapter, fromAdapter);
+      const client = new TestClient(toAdapter, fromAdapter);
+      toAdapter.write("Content-Length: 5\r\n\r\n{oops");
+
+      await client.event("terminated");
+      expect(client.output()).toMatch(/^Invalid debug adapter message: /);
+      expect(toAdapter.destroyed).toBe(true);
+
+      const other = TestClient.connect();
+      await other.launch(script);
+      await other.event("terminated");
+      expect(other.output()).toBe("total 3\n");
+   });
+
+   it("should keep serving after clients send garbage or reset their connection", async () => {
+      const server = createDebugServer();
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as { port: number };
+      const open = async () => {
+         const socket = connect(port, "127.0.0.1");
+         await new Promise((resolve) => socket.once("connect", resolve));
+         return socket;
+      };
+
+      const garbage = await open();
+      const client = new TestClient(garbage, garbage);
+      garbage.write("Content-Type: text/plain\r\n\r\nhello");
+      await client.event("terminated");
+      await new Promise((resolve) => garbage.once("close", resolve));
+
+      const reset = await open();
+      await new Promise((resolve) => {
+         reset.once("close", resolve);
+         reset.resetAndDestroy();
+      });
+
+      const socket = await open();
+      const healthy = new TestClient(socket, socket);
+      await healthy.launch(script);
+      await healthy.event("terminated");
+      expect(healthy.output()).toBe("total 3\n");
+
+      socket.destroy();
+      await new Promise((resolve) => server.close(resolve));
+   });
+});
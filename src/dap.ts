@@ -0,0 +1,510 @@
+import { readFileSync } from "node:fs";
+import { createServer, type Server } from "node:net";
+import { basename, resolve } from "node:path";
+import type { Readable, Writable } from "node:stream";
+import { format } from "node:util";
+import {
+   type DebugScope,
+   type Execution,
+   Interpreter,
+   type InterpreterOptions,
+   type PauseInfo,
+} from "./interpreter.js";
+import { parse } from "./parser.js";
+import { transformToES5 } from "./transform.js";
+
+/**
+ * Options for debug adapters and the interpreters they launch scripts in
+ */
+export interface DebugAdapterOptions {
+   /** Globals for launched scripts, besides a `console` that writes to the debug console */
+   globals?: Record<string, any>;
+   /** Options of the interpreter running launched scripts; `parse` defaults to the bundled parser */
+   interpreterOptions?: InterpreterOptions;
+   /** Operations to run between handling protocol messages (default: 10000) */
+   sliceOps?: number;
+}
+
+/**
+ * Arguments of the `launch` request
+ */
+export interface LaunchArguments {
+   /** Script to run, relative to `cwd` */
+   program: string;
+   /** Directory `program` is relative to (default: the adapter's working directory) */
+   cwd?: string;
+   /** Run the script through transformToES5 first; locations still refer to the script */
+   transform?: boolean;
+   /** Pause before the first statement */
+   stopOnEntry?: boolean;
+}
+
+/**
+ * Debug Adapter Protocol message
+ */
+interface ProtocolMessage {
+   seq: number;
+   type: "request" | "response" | "event";
+   [key: string]: any;
+}
+
+/**
+ * The interpreter runs a single thread of sandboxed code
+ */
+const THREAD_ID = 1;
+
+const SCOPE_NAMES: Record<DebugScope["type"], string> = {
+   block: "Block",
+   function: "Local",
+   module: "Module",
+   global: "Global",
+};
+
+/**
+ * Debug Adapter Protocol session that runs one script in an Interpreter. Messages go in
+ * through handleMessage() and come out through `send`; connectDebugAdapter() wires a
+ * session to streams.
+ */
+export class DebugAdapter {
+   private send: (message: ProtocolMessage) => void;
+   private interpreter: Interpreter;
+   private sliceOps: number;
+   private seq = 1;
+   private execution?: Execution;
+   private launched = false;
+   private configured = false;
+   private stopOnEntry = false;
+   private scheduled = false;
+   private terminated = false;
+   private linesStartAt1 = true;
+   private columnsStartAt1 = true;
+   /** Breakpoint ids per source path */
+   private breakpoints = new Map<string, number[]>();
+   /** Scopes and objects the client can expand, by variablesReference - 1; reset on resume */
+   private handles: object[] = [];
+
+   constructor(send: (message: ProtocolMessage) => void, options: DebugAdapterOptions = {}) {
+      this.send = send;
+      this.sliceOps = options.sliceOps ?? 10000;
+      const output =
+         (category: string) =>
+         (...args: any[]) =>
+            this.output(`${format(...args)}\n`, category);
+      this.interpreter = new Interpreter(
+         {
+            console: {
+               log: output("stdout"),
+               info: output("stdout"),
+               debug: output("stdout"),
+               warn: output("stderr"),
+               error: output("stderr"),
+            },
+            ...options.globals,
+         },
+         { parse, ...options.interpreterOptions },
+      );
+   }
+
+   /**
+    * Handle a request from the client
+    */
+   handleMessage(message: ProtocolMessage): void {
+      if (message.type !== "request") return;
+      try {
+         this.respond(message, this.handleRequest(message.command, message.arguments ?? {}));
+      } catch (error: any) {
+         this.send({
+            seq: this.seq++,
+            type: "response",
+            request_seq: message.seq,
+            command: message.command,
+            success: false,
+            message: error instanceof Error ? error.message : String(error),
+         });
+      }
+   }
+
+   /**
+    * End the session when its connection fails or closes, stopping the script. `reason` is
+    * reported on the debug console if the client may still read it.
+    */
+   close(reason?: string): void {
+      if (reason && !this.terminated) this.output(`${reason}\n`, "stderr");
+      this.execution = undefined;
+      this.terminate();
+      // Nothing reaches a closed connection
+      this.send = () => {};
+   }
+
+   /**
+    * Run a request, returning the response body
+    */
+   private handleRequest(command: string, args: any): object | undefined {
+      switch (command) {
+         case "initialize":
+            this.linesStartAt1 = args.linesStartAt1 ?? true;
+            this.columnsStartAt1 = args.columnsStartAt1 ?? true;
+            // Breakpoints may arrive as soon as the client sees this event
+            queueMicrotask(() => this.event("initialized"));
+            return {
+               supportsConfigurationDoneRequest: true,
+               supportsEvaluateForHovers: true,
+               supportsTerminateRequest: true,
+            };
+
+         case "launch":
+            this.launch(args as LaunchArguments);
+            return undefined;
+
+         case "setBreakpoints":
+            return this.setBreakpoints(args);
+
+         case "configurationDone":
+            this.configured = true;
+            this.schedule();
+            return undefined;
+
+         case "threads":
+            return { threads: [{ id: THREAD_ID, name: "main" }] };
+
+         case "stackTrace":
+            return this.stackTrace();
+
+         case "scopes": {
+            const frame = this.interpreter.getCallFrames()[args.frameId];
+            if (!frame) throw new Error(`Unknown frame ${args.frameId}`);
+            return {
+               scopes: frame.scopes.map((scope) => ({
+                  name: SCOPE_NAMES[scope.type],
+                  variablesReference: this.handle(scope.variables),
+                  expensive: scope.type === "global",
+               })),
+            };
+         }
+
+         case "variables":
+            return { variables: this.variables(args.variablesReference) };
+
+         case "evaluate":
+            return this.evaluate(args.expression, args.frameId);
+
+         case "continue":
+            this.resume();
+            return { allThreadsContinued: true };
+
+         case "next":
+         case "stepIn":
+         case "stepOut":
+            this.interpreter.step(command === "next" ? "over" : command === "stepIn" ? "into" : "out");
+            this.resume();
+            return undefined;
+
+         case "pause":
+            this.interpreter.pause();
+            return undefined;
+
+         case "terminate":
+         case "disconnect":
+            this.execution = undefined;
+            if (command === "terminate") this.terminate();
+            this.terminated = true;
+            return undefined;
+
+         default:
+            throw new Error(`Unsupported request: ${command}`);
+      }
+   }
+
+   /**
+    * Load the program; it starts once the client finished configuring breakpoints
+    */
+   private launch(args: LaunchArguments): void {
+      if (this.launched) {
+         throw new Error("A program was already launched");
+      }
+      const path = resolve(args.cwd ?? process.cwd(), args.program);
+      const code = readFileSync(path, "utf8");
+      const program = args.transform ? transformToES5(code, { filename: path }) : parse(code, path);
+
+      this.stopOnEntry = args.stopOnEntry ?? false;
+      if (this.stopOnEntry) this.interpreter.pause();
+      this.execution = this.interpreter.start(program);
+      this.launched = true;
+      if (this.configured) this.schedule();
+   }
+
+   /**
+    * Replace the breakpoints of a source
+    */
+   private setBreakpoints(args: any): object {
+      const source = resolve(args.source.path);
+      for (const id of this.breakpoints.get(source) ?? []) {
+         this.interpreter.removeBreakpoint(id);
+      }
+
+      const requested: { line: number; column?: number }[] = args.breakpoints ?? [];
+      const ids = requested.map(({ line, column }) =>
+         this.interpreter.setBreakpoint({
+            line: this.fromClientLine(line),
+            column: column === undefined ? undefined : this.fromClientColumn(column),
+            source,
+         }),
+      );
+      this.breakpoints.set(source, ids);
+      return {
+         breakpoints: ids.map((id, i) => ({ id, verified: true, line: requested[i].line })),
+      };
+   }
+
+   /**
+    * Frames of the paused script, innermost first. Frame ids index getCallFrames().
+    */
+   private stackTrace(): object {
+      const frames = this.interpreter.getCallFrames();
+      return {
+         stackFrames: frames.map((frame, id) => ({
+            id,
+            name: frame.functionName,
+            source: frame.source ? { name: basename(frame.source), path: frame.source } : undefined,
+            line: frame.line === undefined ? 0 : this.toClientLine(frame.line),
+            column: frame.column === undefined ? 0 : this.toClientColumn(frame.column),
+         })),
+         totalFrames: frames.length,
+      };
+   }
+
+   /**
+    * Children of a scope or object handle
+    */
+   private variables(reference: number): object[] {
+      const target = this.handles[reference - 1];
+      if (!target) return [];
+
+      return Object.getOwnPropertyNames(target).map((name) => {
+         const descriptor = Object.getOwnPropertyDescriptor(target, name) as PropertyDescriptor;
+         // Reading accessors would run sandboxed or host code
+         if (!("value" in descriptor)) {
+            return { name, value: "[Getter/Setter]", variablesReference: 0 };
+         }
+         return { name, ...this.describe(descriptor.value) };
+      });
+   }
+
+   /**
+    * Evaluate an expression in a paused frame, or in the global scope while not paused
+    */
+   private evaluate(expression: string, frameId: number | undefined): object {
+      const value =
+         frameId !== undefined && this.interpreter.getCallFrames().length > 0
+            ? this.interpreter.evaluateInFrame(frameId, expression)
+            : this.interpreter.evaluate(parse(expression));
+      const { value: result, variablesReference } = this.describe(value);
+      return { result, variablesReference };
+   }
+
+   /**
+    * Display string of a value and a handle to expand it, if it has properties
+    */
+   private describe(value: any): { value: string; variablesReference: number } {
+      if (typeof value === "string") {
+         return { value: JSON.stringify(value), variablesReference: 0 };
+      }
+      if (value === null || (typeof value !== "object" && typeof value !== "function")) {
+         return { value: String(value), variablesReference: 0 };
+      }
+
+      let display: string;
+      if (typeof value === "function") {
+         display = `ƒ ${value.name}()`;
+      } else if (Array.isArray(value)) {
+         display = `Array(${value.length})`;
+      } else if (value instanceof Error) {
+         display = `${value.name}: ${value.message}`;
+      } else {
+         const ctor = Object.getPrototypeOf(value)?.constructor;
+         display = typeof ctor === "function" && ctor.name ? ctor.name : "Object";
+      }
+      return { value: display, variablesReference: this.handle(value) };
+   }
+
+   private handle(target: object): number {
+      return this.handles.push(target);
+   }
+
+   /**
+    * Continue the paused script
+    */
+   private resume(): void {
+      this.handles = [];
+      this.schedule();
+   }
+
+   /**
+    * Run the next slice after pending messages were handled
+    */
+   private schedule(): void {
+      if (this.scheduled) return;
+      this.scheduled = true;
+      setImmediate(() => {
+         this.scheduled = false;
+         this.run();
+      });
+   }
+
+   /**
+    * Run the script one slice at a time, handling messages in between, until it pauses or ends
+    */
+   private run(): void {
+      const execution = this.execution;
+      if (!execution || this.terminated) return;
+
+      let result: ReturnType<Execution["run"]>;
+      try {
+         result = execution.run(this.sliceOps);
+      } catch (error: any) {
+         this.output(`Uncaught ${error instanceof Error ? error.stack : String(error)}\n`, "stderr");
+         this.exit(1);
+         return;
+      }
+
+      if (result.done) {
+         this.exit(0);
+      } else if (result.pause) {
+         this.stopped(result.pause);
+      } else {
+         this.schedule();
+      }
+   }
+
+   private stopped(pause: PauseInfo): void {
+      let reason: string = pause.reason;
+      let description: string | undefined;
+      if (this.stopOnEntry && pause.reason === "pause") {
+         reason = "entry";
+      } else if (pause.reason === "debugger") {
+         reason = "breakpoint";
+         description = "Paused on debugger statement";
+      }
+      this.stopOnEntry = false;
+      this.event("stopped", {
+         reason,
+         description,
+         threadId: THREAD_ID,
+         allThreadsStopped: true,
+         hitBreakpointIds: pause.breakpointId === undefined ? undefined : [pause.breakpointId],
+      });
+   }
+
+   private exit(exitCode: number): void {
+      this.execution = undefined;
+      this.event("exited", { exitCode });
+      this.terminate();
+   }
+
+   private terminate(): void {
+      if (!this.terminated) this.event("terminated");
+      this.terminated = true;
+   }
+
+   private output(text: string, category: string): void {
+      this.event("output", { category, output: text });
+   }
+
+   private respond(request: ProtocolMessage, body: object | undefined): void {
+      this.send({
+         seq: this.seq++,
+         type: "response",
+         request_seq: request.seq,
+         command: request.command,
+         success: true,
+         body,
+      });
+   }
+
+   private event(event: string, body?: object): void {
+      this.send({ seq: this.seq++, type: "event", event, body });
+   }
+
+   private fromClientLine(line: number): number {
+      return this.linesStartAt1 ? line : line + 1;
+   }
+
+   private fromClientColumn(column: number): number {
+      return this.columnsStartAt1 ? column - 1 : column;
+   }
+
+   private toClientLine(line: number): number {
+      return this.linesStartAt1 ? line : line - 1;
+   }
+
+   private toClientColumn(column: number): number {
+      return this.columnsStartAt1 ? column + 1 : column;
+   }
+}
+
+/**
+ * Run a debug adapter over a pair of streams, using the protocol's Content-Length framing
+ */
+export function connectDebugAdapter(
+   input: Readable,
+   output: Writable,
+   options: DebugAdapterOptions = {},
+): DebugAdapter {
+   const adapter = new DebugAdapter((message) => {
+      const body = Buffer.from(JSON.stringify(message), "utf8");
+      output.write(`Content-Length: ${body.length}\r\n\r\n`);
+      output.write(body);
+   }, options);
+
+   let buffer = Buffer.alloc(0);
+   const receive = (chunk: Buffer | string) => {
+      buffer = Buffer.concat([buffer, typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk]);
+      while (true) {
+         let message: ProtocolMessage;
+         try {
+            const headerEnd = buffer.indexOf("\r\n\r\n");
+            if (headerEnd < 0) return;
+            const header = buffer.subarray(0, headerEnd).toString("ascii");
+            const length = Number(/Content-Length: *(\d+)/i.exec(header)?.[1]);
+            if (Number.isNaN(length)) {
+               throw new Error("message without Content-Length header");
+            }
+            const bodyStart = headerEnd + 4;
+            if (buffer.length < bodyStart + length) return;
+            message = JSON.parse(buffer.subarray(bodyStart, bodyStart + length).toString("utf8"));
+            buffer = buffer.subarray(bodyStart + length);
+            if (typeof message !== "object" || message === null) {
+               throw new Error("message is not a JSON object");
+            }
+         } catch (error: any) {
+            // The stream can't be read past a malformed message: end this session, not the process
+            input.off("data", receive);
+            adapter.close(`Invalid debug adapter message: ${error.message}`);
+            input.destroy();
+            return;
+         }
+         adapter.handleMessage(message);
+      }
+   };
+   input.on("data", receive);
+   return adapter;
+}
+
+/**
+ * Serve debug adapters over TCP, one session per connection. Call listen() on the result.
+ */
+export function createDebugServer(options: DebugAdapterOptions = {}): Server {
+   return createServer((socket) => {
+      const adapter = connectDebugAdapter(socket, socket, options);
+      // Connection errors like a client resetting the socket end that session only
+      socket.on("error", () => adapter.close());
+      socket.on("close", () => adapter.close());
+   });
+}
+
+/**
+ * Run a debug adapter over stdin/stdout, as editors launch adapter executables
+ */
+export function runDebugAdapter(options: DebugAdapterOptions = {}): DebugAdapter {
+   return connectDebugAdapter(process.stdin, process.stdout, options);
+}
@@ -0,0 +1,54 @@
+/**
+ * Base class for errors the interpreter raises to stop execution on behalf of the host.
+ *
+ * Sandboxed code cannot intercept these: `try`/`catch` blocks and `finally` handlers
+ * are skipped, so the error always propagates out of `evaluate()` to the host.
+ */
+export class ExecutionInterruptedError extends Error {
+   constructor(message: string, options?: { cause?: unknown }) {
+      super(message, options);
+      this.name = "ExecutionInterruptedError";
+   }
+}
+
+/**
+ * Thrown when evaluation exceeds its operation budget (`maxOps`) or wall-clock deadline (`timeoutMs`)
+ */
+export class ExecutionTimeoutError extends ExecutionInterruptedError {
+   constructor(message: string) {
+      super(message);
+      this.name = "ExecutionTimeoutError";
+   }
+}
+
+/**
+ * Thrown when evaluation is cancelled through an AbortSignal. The signal's reason is the `cause`.
+ */
+export class ExecutionAbortedError extends ExecutionInterruptedError {
+   constructor(reason?: unknown) {
+      const detail = reason instanceof Error ? reason.message : reason !== undefined ? String(reason) : "";
+      super(detail ? `Execution aborted: ${detail}` : "Execution aborted", { cause: reason });
+      this.name = "ExecutionAbortedError";
+   }
+}
+
+/**
+ * Thrown when the estimated memory allocated by sandboxed code exceeds `maxMemory`
+ */
+export class MemoryLimitError extends ExecutionInterruptedError {
+   constructor(message: string) {
+      super(message);
+      this.name = "MemoryLimitError";
+   }
+}
+
+/**
+ * Thrown when a module imports a host-defined module whose `allow` check rejects it.
+ * Unlike interrupts, sandboxed code can catch it, e.g. from a failed dynamic import().
+ */
+export class ModuleAccessError extends Error {
+   constructor(message: string) {
+      super(message);
+      this.name = "ModuleAccessError";
+   }
+}
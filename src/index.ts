@@ -1,5 +1,45 @@
 // JailJS - JavaScript AST interpreter for sandboxed execution
 
-export type { InterpreterOptions } from "./interpreter.js";
+export { type CostModel, defaultCostModel } from "./cost-model.js";
+export {
+   CoverageCollector,
+   type CoverageMapData,
+   type CoveragePosition,
+   type CoverageRange,
+   type FileCoverageData,
+} from "./coverage.js";
+export {
+   ExecutionAbortedError,
+   ExecutionInterruptedError,
+   ExecutionTimeoutError,
+   MemoryLimitError,
+   ModuleAccessError,
+} from "./errors.js";
+export type {
+   BreakpointLocation,
+   CallEvent,
+   CallSite,
+   CommonJSLoader,
+   DebugFrame,
+   DebugScope,
+   EvaluateAsyncOptions,
+   Execution,
+   ExecutionResult,
+   HostModuleOptions,
+   InterpreterHooks,
+   InterpreterOptions,
+   ModuleLoader,
+   OpsUsage,
+   PauseInfo,
+   StepMode,
+} from "./interpreter.js";
 export { Interpreter } from "./interpreter.js";
-export { parse } from "./parser.js";
+export { type ParseOptions, parse, parseModule } from "./parser.js";
+export type {
+   CpuProfile,
+   Profile,
+   ProfileFunction,
+   ProfileHostFunction,
+   ProfileLine,
+   ProfilingOptions,
+} from "./profiler.js";
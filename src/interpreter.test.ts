@@ -1,6 +1,8 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
+import { defaultCostModel } from "./cost-model";
+import { ExecutionAbortedError, ExecutionTimeoutError, MemoryLimitError, ModuleAccessError } from "./errors";
 import { Interpreter, type InterpreterOptions } from "./interpreter";
-import { parse } from "./parser";
+import { type ParseOptions, parse, parseModule } from "./parser";
 
 // Helper to maintain existing test API
 class TestInterpreter extends Interpreter {
@@ -8,8 +10,8 @@ class TestInterpreter extends Interpreter {
       super(globalEnv, { ...options, parse }); // Inject parser for eval() support
    }
 
-   run(code: string): any {
-      return this.evaluate(parse(code));
+   run(code: string, options?: ParseOptions): any {
+      return this.evaluate(parse(code, undefined, options));
    }
 }
 
@@ -174,6 +176,68 @@ describe("Interpreter - ES5 Smoke Tests", () => {
          const interp = new TestInterpreter();
          expect(interp.run('var obj = {}; var key = "x"; obj[key] = 5; obj.x')).toBe(5);
       });
+
+      it("should run getters and setters in object literals", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var temp = {
+               celsius: 20,
+               get fahrenheit() { return this.celsius * 9 / 5 + 32; },
+               set fahrenheit(f) { this.celsius = (f - 32) * 5 / 9; }
+            };
+            var before = temp.fahrenheit;
+            temp.fahrenheit = 212;
+            [before, temp.celsius, temp.fahrenheit];
+         `);
+         expect(result).toEqual([68, 100, 212]);
+      });
+
+      it("should define accessors as enumerable properties with accessor names", () => {
+         const interp = new TestInterpreter();
+         const obj = interp.run("({ get x() { return 1; }, set x(v) {}, y: 2 })");
+         const descriptor = Object.getOwnPropertyDescriptor(obj, "x") as PropertyDescriptor;
+         expect(descriptor.enumerable).toBe(true);
+         expect(descriptor.get?.name).toBe("get x");
+         expect(descriptor.set?.name).toBe("set x");
+         expect(Object.keys(obj)).toEqual(["x", "y"]);
+      });
+
+      it("should run accessors from Object.defineProperty, defineProperties and create", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var log = [];
+            var a = {};
+            Object.defineProperty(a, 'value', {
+               get: function() { return 'a'; },
+               set: function(v) { log.push('a=' + v); }
+            });
+            var b = Object.defineProperties({}, {
+               value: { get: function() { return 'b'; } }
+            });
+            var c = Object.create({ base: 'c' }, {
+               value: { get: function() { return this.base; } }
+            });
+            a.value = 1;
+            [a.value, b.value, c.value, log.join(',')];
+         `);
+         expect(result).toEqual(["a", "b", "c", "a=1"]);
+      });
+
+      it("should compute configuration from getters", () => {
+         const interp = new TestInterpreter();
+         const config = interp.run(`
+            var config = {
+               env: 'prod',
+               get apiUrl() { return this.env === 'prod' ? 'https://api.example.com' : 'http://localhost'; },
+               get timeout() { return this.env === 'prod' ? 5000 : 0; }
+            };
+            config;
+         `);
+         expect(config.apiUrl).toBe("https://api.example.com");
+         config.env = "dev";
+         expect(config.apiUrl).toBe("http://localhost");
+         expect(config.timeout).toBe(0);
+      });
    });
 
    describe("Arrays", () => {
@@ -395,6 +459,30 @@ describe("Interpreter - ES5 Smoke Tests", () => {
          ).toBe(4);
       });
 
+      it("should continue labeled for and while loops", () => {
+         const interp = new TestInterpreter();
+         expect(
+            interp.run(`
+				var log = [];
+				outer: for (var i = 0; i < 3; i++) {
+					for (var j = 0; j < 3; j++) {
+						if (j === 1) continue outer;
+						log.push(i + ':' + j);
+					}
+				}
+				var k = 0;
+				loop: while (k < 3) {
+					k++;
+					do {
+						if (k === 2) continue loop;
+						log.push('k' + k);
+					} while (false);
+				}
+				log.join(',')
+			`),
+         ).toBe("0:0,1:0,2:0,k1,k3");
+      });
+
       it("should handle switch statements", () => {
          const interp = new TestInterpreter();
          expect(
@@ -636,9 +724,77 @@ describe("Interpreter - ES5 Smoke Tests", () => {
 			`),
          ).toBe(10);
       });
+
+      it("should return callable functions to the host", () => {
+         const interp = new TestInterpreter();
+         const add = interp.run("(function(a, b) { return a + b; })");
+         expect(typeof add).toBe("function");
+         expect(add(2, 3)).toBe(5);
+      });
+
+      it("should call functions stored on host objects", () => {
+         const el: any = {};
+         const interp = new TestInterpreter({ el });
+         interp.run("var clicks = 0; el.onclick = function() { return ++clicks; };");
+         el.onclick();
+         expect(el.onclick()).toBe(2);
+      });
+
+      it("should call functions nested in arrays and options objects", () => {
+         const interp = new TestInterpreter({
+            runAll: (fns: any[]) => fns.map((fn) => fn()),
+            fetchLike: (options: any) => options.onDone("ok"),
+         });
+         expect(interp.run("runAll([function() { return 1; }, function() { return 2; }])")).toEqual([1, 2]);
+         expect(interp.run("fetchLike({ onDone: function(result) { return 'done: ' + result; } })")).toBe("done: ok");
+      });
+
+      it("should use interpreted functions as accessors and listeners", () => {
+         const target = new EventTarget();
+         const interp = new TestInterpreter({ Object, target });
+         const obj = interp.run(`
+            var received = [];
+            target.addEventListener('ping', function(e) { received.push(e.type); });
+            var obj = {};
+            Object.defineProperty(obj, 'double', { get: function() { return received.length * 2; } });
+            obj;
+         `);
+         target.dispatchEvent(new Event("ping"));
+         target.dispatchEvent(new Event("ping"));
+         expect(obj.double).toBe(4);
+      });
+
+      it("should bind this when the host calls a function as a method", () => {
+         const interp = new TestInterpreter();
+         const obj = interp.run("({ value: 42, get: function() { return this.value; } })");
+         expect(obj.get()).toBe(42);
+      });
+
+      it("should construct interpreted functions from the host", () => {
+         const interp = new TestInterpreter();
+         const Point = interp.run(`
+            function Point(x) { this.x = x; }
+            Point.prototype.double = function() { return this.x * 2; };
+            Point;
+         `);
+         const point = new Point(21);
+         expect(point).toBeInstanceOf(Point);
+         expect(point.double()).toBe(42);
+      });
+
+      it("should not construct arrow functions or methods", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("var f = () => 1; new f();")).toThrow(TypeError);
+         expect(() => interp.run("var o = { m() {} }; new o.m();")).toThrow(TypeError);
+      });
    });
 
    describe("Security", () => {
+      it("should block the Function constructor through interpreted functions", () => {
+         const interp = new TestInterpreter();
+         expect(interp.run("(function() {}).constructor")).toBeUndefined();
+      });
+
       it("should block __proto__ access", () => {
          const interp = new TestInterpreter();
          expect(interp.run("var obj = {}; obj.__proto__")).toBe(undefined);
@@ -901,4 +1057,2407 @@ describe("Interpreter - ES5 Smoke Tests", () => {
          delete (Math as any).customProperty;
       });
    });
+   describe("Generators", () => {
+      it("should produce values lazily with yield", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var log = [];
+            function* counter() {
+               log.push('start');
+               yield 1;
+               yield 2;
+               return 3;
+            }
+            var gen = counter();
+            log.push('created');
+            var a = gen.next();
+            var b = gen.next();
+            var c = gen.next();
+            var d = gen.next();
+            [log.join(','), a.value, a.done, b.value, c.value, c.done, d.value, d.done];
+         `);
+         expect(result).toEqual(["created,start", 1, false, 2, 3, true, undefined, true]);
+      });
+
+      it("should receive values sent through next()", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var gen = (function* () {
+               var total = 0;
+               while (true) {
+                  total += yield total;
+               }
+            })();
+            gen.next();
+            gen.next(5);
+            gen.next(10).value;
+         `);
+         expect(result).toBe(15);
+      });
+
+      it("should route throw() into sandboxed catch blocks", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            function* guarded() {
+               try {
+                  yield 1;
+               } catch (e) {
+                  yield 'caught ' + e;
+               }
+            }
+            var gen = guarded();
+            gen.next();
+            gen.throw('boom').value;
+         `);
+         expect(result).toBe("caught boom");
+      });
+
+      it("should run finally blocks on return()", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var cleaned = false;
+            function* resource() {
+               try {
+                  yield 1;
+                  yield 2;
+               } finally {
+                  cleaned = true;
+               }
+            }
+            var gen = resource();
+            gen.next();
+            var r = gen.return(42);
+            [r.value, r.done, cleaned];
+         `);
+         expect(result).toEqual([42, true, true]);
+      });
+
+      it("should delegate with yield*", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            function* inner() {
+               yield 'a';
+               yield 'b';
+               return 'inner done';
+            }
+            function* outer() {
+               var r = yield* inner();
+               yield r;
+               yield* [1, 2];
+            }
+            var out = [];
+            var gen = outer();
+            for (var step = gen.next(); !step.done; step = gen.next()) {
+               out.push(step.value);
+            }
+            out.join(',');
+         `);
+         expect(result).toBe("a,b,inner done,1,2");
+      });
+
+      it("should expose generator objects as host iterables", () => {
+         const interp = new TestInterpreter();
+         const gen = interp.run(`
+            function* range(n) {
+               for (var i = 0; i < n; i++) yield i;
+            }
+            range(4);
+         `);
+         expect(Array.from(gen)).toEqual([0, 1, 2, 3]);
+         expect(Object.prototype.toString.call(gen)).toBe("[object Generator]");
+      });
+
+      it("should support generator methods and instanceof against the generator function", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var obj = {
+               *pairs() {
+                  yield 1;
+               }
+            };
+            function* g() {}
+            [obj.pairs().next().value, g() instanceof g];
+         `);
+         expect(result).toEqual([1, true]);
+      });
+   });
+   describe("Suspendable Execution", () => {
+      it("should run deep recursion without growing the host stack", () => {
+         const interp = new TestInterpreter({}, { maxCallDepth: 30000 });
+         const result = interp.run(`
+            function depth(n) {
+               return n === 0 ? 0 : 1 + depth(n - 1);
+            }
+            depth(20000);
+         `);
+         expect(result).toBe(20000);
+      });
+
+      it("should pause after a budget and resume later", () => {
+         const interp = new TestInterpreter();
+         const execution = interp.start(
+            parse(`
+               var total = 0;
+               for (var i = 0; i < 1000; i++) {
+                  total += i;
+               }
+               total;
+            `),
+         );
+
+         let slices = 0;
+         let step = execution.run(500);
+         while (!step.done) {
+            slices++;
+            step = execution.run(500);
+         }
+
+         expect(slices).toBeGreaterThan(1);
+         expect(step.value).toBe(499500);
+         expect(execution.done).toBe(true);
+      });
+
+      it("should keep sandbox state consistent between slices", () => {
+         const interp = new TestInterpreter();
+         const execution = interp.start(
+            parse(`
+               var seen = [];
+               function* numbers() {
+                  for (var i = 0; i < 5; i++) yield i;
+               }
+               for (var it = numbers(), s = it.next(); !s.done; s = it.next()) {
+                  seen.push(s.value);
+               }
+               seen.join(',');
+            `),
+         );
+
+         let step = execution.run(10);
+         expect(step.done).toBe(false);
+         expect(interp.run("seen.length")).toBeLessThan(5);
+         while (!step.done) step = execution.run(10);
+         expect(step.value).toBe("0,1,2,3,4");
+      });
+
+      it("should charge and fail the same when simple code skips frames", () => {
+         const code = `
+            var o = { n: 0 }, total = 0;
+            for (var i = 0; i < 50; i++) {
+               if (i % 3 === 0) { total += i; } else { o.n++; }
+               o[i > 25 ? "big" : "small"] = -total || null;
+            }
+            total + o.n + o.big;
+         `;
+         const inline = new TestInterpreter();
+         const framed = new TestInterpreter({}, { hooks: { onEnterNode: () => {} } });
+         expect(inline.run(code)).toBe(framed.run(code));
+         expect(inline.getOpsUsage().entry).toBe(framed.getOpsUsage().entry);
+
+         const failure = (interp: TestInterpreter) => {
+            try {
+               interp.run("var a = 1;\nif (a) { a = a + missing.x; }");
+            } catch (e) {
+               return [(e as Error).message, (e as Error).stack?.split("\n")[1]];
+            }
+         };
+         expect(failure(inline)).toEqual(failure(framed));
+      });
+
+      it("should propagate errors from a resumed execution", () => {
+         const interp = new TestInterpreter();
+         const execution = interp.start(parse("var a = 1; var b = 2; missing();"));
+         expect(execution.run(2).done).toBe(false);
+         expect(() => execution.run()).toThrow("missing is not defined");
+         expect(execution.done).toBe(true);
+      });
+   });
+   describe("Time-Sliced Evaluation", () => {
+      it("should resolve with the completion value", async () => {
+         const interp = new TestInterpreter();
+         const result = await interp.evaluateAsync(
+            parse(`
+               var total = 0;
+               for (var i = 0; i < 2000; i++) total += i;
+               total;
+            `),
+            { sliceOps: 100 },
+         );
+         expect(result).toBe(1999000);
+      });
+
+      it("should let host timers run between slices", async () => {
+         let ticks = 0;
+         const interp = new TestInterpreter({ getTicks: () => ticks });
+         const timer = setInterval(() => ticks++, 0);
+         try {
+            const result = await interp.evaluateAsync(
+               parse(`
+                  while (getTicks() < 3) {}
+                  getTicks();
+               `),
+               { sliceOps: 1000 },
+            );
+            expect(result).toBeGreaterThanOrEqual(3);
+         } finally {
+            clearInterval(timer);
+         }
+      });
+
+      it("should stop an endless script when the signal aborts", async () => {
+         const interp = new TestInterpreter();
+         const controller = new AbortController();
+         setTimeout(() => controller.abort(new Error("stopped by host")), 10);
+         await expect(interp.evaluateAsync(parse("while (true) {}"), { signal: controller.signal })).rejects.toThrow(
+            "stopped by host",
+         );
+      });
+
+      it("should still enforce maxOps", async () => {
+         const interp = new TestInterpreter({}, { maxOps: 1000 });
+         await expect(interp.evaluateAsync(parse("while (true) {}"), { sliceOps: 100 })).rejects.toThrow(
+            "maximum operations exceeded",
+         );
+      });
+   });
+   describe("Execution Limits", () => {
+      it("should not let sandboxed try/catch swallow the operation limit", () => {
+         const interp = new TestInterpreter({}, { maxOps: 1000 });
+         expect(() => interp.run("try { while (true) {} } catch (e) {}")).toThrow(ExecutionTimeoutError);
+      });
+
+      it("should skip sandboxed finally blocks when interrupted", () => {
+         const log: string[] = [];
+         const interp = new TestInterpreter({ log: (msg: string) => log.push(msg) }, { maxOps: 1000 });
+         expect(() => interp.run("try { while (true) {} } finally { log('finally'); }")).toThrow(ExecutionTimeoutError);
+         expect(log).toEqual([]);
+      });
+
+      it("should enforce a wall-clock deadline across slow host calls", () => {
+         const busyWait = (ms: number) => {
+            const end = Date.now() + ms;
+            while (Date.now() < end) {}
+         };
+         const interp = new TestInterpreter({ busyWait }, { timeoutMs: 50 });
+         expect(() => interp.run("while (true) { busyWait(5); }")).toThrow(ExecutionTimeoutError);
+      });
+
+      it("should abort when the signal fires", () => {
+         const controller = new AbortController();
+         const interp = new TestInterpreter(
+            { stop: () => controller.abort("plugin unloaded") },
+            { signal: controller.signal },
+         );
+
+         let error: any;
+         try {
+            interp.run("var i = 0; while (true) { try { if (++i === 10) stop(); } catch (e) {} }");
+         } catch (e) {
+            error = e;
+         }
+         expect(error).toBeInstanceOf(ExecutionAbortedError);
+         expect(error.cause).toBe("plugin unloaded");
+         expect(() => interp.run("1")).toThrow(ExecutionAbortedError);
+      });
+
+      it("should count eval() code against the caller's budget", () => {
+         const interp = new TestInterpreter({}, { maxOps: 1000 });
+         expect(() => interp.run('while (true) { eval("1"); }')).toThrow(ExecutionTimeoutError);
+      });
+
+      it("should not apply an expired deadline to later callbacks", async () => {
+         let callback: any;
+         const interp = new TestInterpreter(
+            {
+               register: (fn: any) => {
+                  callback = fn;
+               },
+            },
+            { timeoutMs: 20 },
+         );
+         interp.run("var calls = 0; register(function() { return ++calls; });");
+         await new Promise((resolve) => setTimeout(resolve, 40));
+         expect(callback()).toBe(1);
+      });
+   });
+   describe("Operation Budgets", () => {
+      it("should give each host-invoked callback its own entry budget", () => {
+         let handler: any;
+         const interp = new TestInterpreter(
+            {
+               on: (fn: any) => {
+                  handler = fn;
+               },
+            },
+            { maxOps: 200 },
+         );
+         interp.run(`
+            on(function(n) {
+               var i = 0;
+               while (i < n) i++;
+               return i;
+            });
+         `);
+
+         // Every event gets a fresh budget, so repeated small events keep working
+         for (let k = 0; k < 5; k++) {
+            expect(handler(10)).toBe(10);
+         }
+         // A single runaway event is still stopped
+         expect(() => handler(1000000)).toThrow(ExecutionTimeoutError);
+      });
+
+      it("should charge callbacks run by host functions to the calling entry", () => {
+         const interp = new TestInterpreter({}, { maxOps: 500 });
+         expect(() =>
+            interp.run(`
+               var items = [];
+               for (var i = 0; i < 100; i++) items.push(i);
+               items.map(function(x) { return x * 2; }).length;
+            `),
+         ).toThrow(ExecutionTimeoutError);
+      });
+
+      it("should enforce the lifetime budget across entries", () => {
+         let handler: any;
+         const interp = new TestInterpreter(
+            {
+               on: (fn: any) => {
+                  handler = fn;
+               },
+            },
+            { maxTotalOps: 100 },
+         );
+         interp.run("on(function() { return 1 + 1; });");
+
+         let calls = 0;
+         expect(() => {
+            while (true) {
+               handler();
+               calls++;
+            }
+         }).toThrow("lifetime operation budget exhausted");
+         expect(calls).toBeGreaterThan(0);
+         expect(interp.getOpsUsage().remaining).toBe(0);
+      });
+
+      it("should report and refill the remaining lifetime budget", () => {
+         const interp = new TestInterpreter({}, { maxTotalOps: 1000 });
+         interp.run("var x = 1 + 2;");
+
+         const usage = interp.getOpsUsage();
+         expect(usage.total).toBeGreaterThan(0);
+         expect(usage.total).toBe(usage.entry);
+         expect(usage.remaining).toBe(1000 - usage.total);
+
+         expect(() => interp.run("while (true) {}")).toThrow(ExecutionTimeoutError);
+         expect(() => interp.run("x")).toThrow(ExecutionTimeoutError);
+
+         interp.refillOps(100);
+         expect(interp.getOpsUsage().remaining).toBe(100);
+         expect(interp.run("x")).toBe(3);
+      });
+   });
+   describe("Cost Model", () => {
+      it("should charge one operation per node without a cost model", () => {
+         const interp = new TestInterpreter();
+         interp.run("1 + 2");
+         // Program, ExpressionStatement, BinaryExpression and two literals
+         expect(interp.getOpsUsage().entry).toBe(5);
+      });
+
+      it("should apply per node type weights", () => {
+         const interp = new TestInterpreter({}, { costModel: { nodes: { NumericLiteral: 10 }, defaultNodeCost: 0 } });
+         interp.run("1 + 2");
+         expect(interp.getOpsUsage().entry).toBe(20);
+      });
+
+      it("should charge host functions through the hostCall hook", () => {
+         const calls: any[] = [];
+         const interp = new TestInterpreter(
+            { sum: (...nums: number[]) => nums.reduce((a, b) => a + b, 0) },
+            {
+               costModel: {
+                  defaultNodeCost: 0,
+                  hostCall: (fn, thisArg, args) => {
+                     calls.push([fn.name, thisArg, args.length]);
+                     return args.length * 100;
+                  },
+               },
+            },
+         );
+         expect(interp.run("sum(1, 2, 3)")).toBe(6);
+         expect(interp.getOpsUsage().entry).toBe(300);
+         expect(calls).toEqual([["sum", undefined, 3]]);
+      });
+
+      it("should stop expensive host calls before they run", () => {
+         const sort = vi.fn((arr: number[]) => arr.sort());
+         const interp = new TestInterpreter(
+            { sort },
+            { maxOps: 1000, costModel: { hostCall: (_fn, _this, args) => args[0].length } },
+         );
+         expect(() => interp.run("var big = []; big.length = 5000; sort(big);")).toThrow(ExecutionTimeoutError);
+         expect(sort).not.toHaveBeenCalled();
+      });
+
+      it("should charge natives by input size in the default cost model", () => {
+         const interp = new TestInterpreter({}, { costModel: defaultCostModel });
+         interp.run("var small = [3, 1, 2];");
+         interp.run("small.sort();");
+         const smallCost = interp.getOpsUsage().entry;
+
+         interp.run("var big = []; for (var i = 0; i < 1000; i++) big.push(1000 - i);");
+         interp.run("big.sort();");
+         const bigCost = interp.getOpsUsage().entry;
+
+         expect(bigCost).toBeGreaterThan(smallCost + 500);
+      });
+   });
+   describe("Memory Limits", () => {
+      it("should stop runaway object allocation", () => {
+         const interp = new TestInterpreter({}, { maxMemory: 100000 });
+         expect(() => interp.run("var all = []; while (true) { all.push({ a: 1, b: 2 }); }")).toThrow(MemoryLimitError);
+      });
+
+      it("should stop exponential string growth", () => {
+         const interp = new TestInterpreter({}, { maxMemory: 1000000 });
+         expect(() => interp.run('var s = "x"; while (true) { s += s; }')).toThrow(MemoryLimitError);
+      });
+
+      it("should reject huge host allocations before they happen", () => {
+         const interp = new TestInterpreter({}, { maxMemory: 1000000 });
+         expect(() => interp.run("new Array(1e9)")).toThrow(MemoryLimitError);
+         expect(() => interp.run('"abc".repeat(1e9)')).toThrow(MemoryLimitError);
+      });
+
+      it("should charge arrays grown through length and indices", () => {
+         const interp = new TestInterpreter({}, { maxMemory: 1000000 });
+         expect(() => interp.run("var a = []; a.length = 1e7; a.fill(0); a.length")).toThrow(MemoryLimitError);
+         expect(() => interp.run("var b = []; b[1e7] = 1;")).toThrow(MemoryLimitError);
+         expect(() => interp.run("var c = [1]; c.length += 1e7;")).toThrow(MemoryLimitError);
+         expect(interp.run("var d = []; d.length = 1000; d.length = 10; d[20] = 1; d.length")).toBe(21);
+      });
+
+      it("should charge every property an object spread copies", () => {
+         const interp = new TestInterpreter({}, { maxMemory: 1e7 });
+         interp.run("var big = {}; for (var i = 0; i < 10000; i++) big['k' + i] = i;");
+         expect(() => interp.run("var copies = []; for (var n = 0; n < 1000; n++) copies.push({ ...big });")).toThrow(
+            MemoryLimitError,
+         );
+         expect(interp.run("copies.length")).toBeLessThan(1000);
+      });
+
+      it("should charge in-place array methods before they run", () => {
+         const sparse = (length: number) => {
+            const array: any[] = [];
+            array.length = length;
+            return array;
+         };
+         const globals = {
+            filled: sparse(1e7),
+            tail: sparse(1e7),
+            head: sparse(1e7),
+            copied: sparse(1e7),
+         };
+         const interp = new TestInterpreter(globals, { maxMemory: 1000000 });
+         expect(() => interp.run("filled.fill(0)")).toThrow(MemoryLimitError);
+         expect(() => interp.run("tail.fill(0, -1e6)")).toThrow(MemoryLimitError);
+         expect(interp.run("head.fill(0, 0, 10); head.length")).toBe(1e7);
+         expect(() => interp.run("copied[0] = 1; copied.copyWithin(1, 0)")).toThrow(MemoryLimitError);
+         expect(globals.filled[0]).toBeUndefined();
+         expect(globals.copied[1]).toBeUndefined();
+
+         const spliced = new TestInterpreter({ items: [0, 0, ...new Array(2e4).fill(1)] }, { maxMemory: 100000 });
+         expect(() => spliced.run("[].splice(...items)")).toThrow(MemoryLimitError);
+      });
+
+      it("should check Array.from and join against the source length first", () => {
+         const holes: any[] = [];
+         holes.length = 1e8;
+         const interp = new TestInterpreter({ holes }, { maxMemory: 1000000 });
+         expect(() => interp.run("Array.from({ length: 1e8 })")).toThrow(MemoryLimitError);
+         expect(() => interp.run("Array.from(holes, function (x, i) { return i; })")).toThrow(MemoryLimitError);
+         expect(() => interp.run('holes.join("--")')).toThrow(MemoryLimitError);
+         expect(interp.run("Array.from({ length: 3 }).join().length")).toBe(2);
+      });
+
+      it("should not be catchable by sandboxed code", () => {
+         const interp = new TestInterpreter({}, { maxMemory: 10000 });
+         expect(() =>
+            interp.run("try { var a = []; while (true) a.push([1, 2, 3]); } catch (e) { 'caught'; }"),
+         ).toThrow(MemoryLimitError);
+      });
+
+      it("should release call frames when calls return", () => {
+         const interp = new TestInterpreter({}, { maxMemory: 50000 });
+         const result = interp.run(`
+            function add(a, b) { return a + b; }
+            var total = 0;
+            for (var i = 0; i < 2000; i++) total = add(total, i);
+            total;
+         `);
+         expect(result).toBe(1999000);
+      });
+
+      it("should reset the estimate for each entry", () => {
+         const interp = new TestInterpreter({}, { maxMemory: 20000 });
+         for (let i = 0; i < 10; i++) {
+            expect(interp.run("var items = []; for (var i = 0; i < 50; i++) items.push({ i: i }); items.length")).toBe(
+               50,
+            );
+         }
+      });
+   });
+   describe("Call Depth Limit", () => {
+      it("should throw a RangeError at the configured depth", () => {
+         const interp = new TestInterpreter({}, { maxCallDepth: 50 });
+         const result = interp.run(`
+            var depth = 0;
+            function recurse() {
+               depth++;
+               recurse();
+            }
+            var message;
+            try {
+               recurse();
+            } catch (e) {
+               message = (e instanceof RangeError) + ':' + e.message;
+            }
+            [message, depth];
+         `);
+         expect(result).toEqual(["true:Maximum call stack size exceeded", 50]);
+      });
+
+      it("should attach the interpreted call stack", () => {
+         const interp = new TestInterpreter({}, { maxCallDepth: 4 });
+         let error: any;
+         try {
+            interp.run(`
+               function outer() { return middle(); }
+               function middle() { return (function() { return inner(); })(); }
+               function inner() { return inner(); }
+               outer();
+            `);
+         } catch (e) {
+            error = e;
+         }
+         expect(error).toBeInstanceOf(RangeError);
+         expect(error.callStack.map((site: any) => site.functionName)).toEqual([
+            "inner",
+            "<anonymous>",
+            "middle",
+            "outer",
+            "<top-level>",
+         ]);
+      });
+
+      it("should apply a default limit to runaway recursion", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("function f() { return f(); } f();")).toThrow("Maximum call stack size exceeded");
+      });
+
+      it("should count host-mediated callbacks towards the depth", () => {
+         const interp = new TestInterpreter({ invoke: (fn: any) => fn() }, { maxCallDepth: 20 });
+         expect(() => interp.run("function f() { return invoke(f); } f();")).toThrow(RangeError);
+      });
+
+      it("should stop recursion through host callbacks before the host stack overflows", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var depth = 0;
+            function nest() {
+               depth++;
+               return [1].map(nest);
+            }
+            var caught;
+            try {
+               nest();
+            } catch (e) {
+               caught = e;
+            }
+            [caught instanceof RangeError, caught.message, caught.callStack.length > 200, depth];
+         `);
+         expect(result).toEqual([true, "Maximum call stack size exceeded", true, 256]);
+         expect(interp.run("[1, 2].map(function (n) { return [n].map(function (m) { return m * 2; })[0]; })")).toEqual([
+            2, 4,
+         ]);
+      });
+   });
+   describe("Function.prototype Behavior", () => {
+      it("should report length and inferred names", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            function named(a, b, c) {}
+            var assigned = function(a) {};
+            var later;
+            later = function() {};
+            var obj = { prop: function(a, b) {}, method(x) {} };
+            var explicit = function inner() {};
+            [
+               named.name, named.length,
+               assigned.name, assigned.length,
+               later.name,
+               obj.prop.name, obj.prop.length,
+               obj.method.name, obj.method.length,
+               explicit.name,
+               (function() {}).name,
+            ];
+         `);
+         expect(result).toEqual(["named", 3, "assigned", 1, "later", "prop", 2, "method", 1, "inner", ""]);
+      });
+
+      it("should return the source text from toString()", () => {
+         const interp = new TestInterpreter({ funcToString: Function.prototype.toString });
+         const result = interp.run(`
+            function add(a, b) { return a + b; }
+            [add.toString(), '' + add, funcToString.call(add)];
+         `);
+         const source = "function add(a, b) { return a + b; }";
+         expect(result).toEqual([source, source, source]);
+      });
+
+      it("should fall back to native code without source text", () => {
+         const interp = new Interpreter();
+         const ast = parse("(function answer() { return 42; })");
+         delete ast.extra?.source;
+         const fn = interp.evaluate(ast);
+         expect(fn.toString()).toBe("function answer() { [native code] }");
+      });
+
+      it("should have Function.prototype in the prototype chain", () => {
+         const interp = new TestInterpreter({ isFunction: (fn: any) => fn instanceof Function });
+         const fn = interp.run("function f() {} f;");
+         expect(fn).toBeInstanceOf(Function);
+         expect(interp.run("isFunction(f)")).toBe(true);
+         expect(Object.getPrototypeOf(Object.getPrototypeOf(fn))).toBe(Function.prototype);
+      });
+
+      it("should bind undefined and null as this", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var self = { tag: 'global' };
+            function who() { return this === undefined ? 'undefined' : this === null ? 'null' : this.tag; }
+            [who.bind(undefined)(), who.bind(null)(), who.call(self)];
+         `);
+         expect(result).toEqual(["undefined", "null", "global"]);
+      });
+
+      it("should construct bound functions with the target's prototype", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            function Point(x, y) { this.x = x; this.y = y; }
+            var BoundPoint = Point.bind({ ignored: true }, 1);
+            var p = new BoundPoint(2);
+            [p.x, p.y, p instanceof Point, p instanceof BoundPoint, p.ignored, BoundPoint.name, BoundPoint.length];
+         `);
+         expect(result).toEqual([1, 2, true, true, undefined, "bound Point", 1]);
+      });
+
+      it("should support lodash-style currying by length", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            function curry(fn) {
+               return function curried() {
+                  var args = Array.prototype.slice.call(arguments);
+                  if (args.length >= fn.length) return fn.apply(this, args);
+                  return function() {
+                     return curried.apply(this, args.concat(Array.prototype.slice.call(arguments)));
+                  };
+               };
+            }
+            var add3 = curry(function(a, b, c) { return a + b + c; });
+            add3(1)(2)(3) + add3(1, 2)(3);
+         `);
+         expect(result).toBe(12);
+      });
+
+      it("should keep call and apply on the interpreter stack", () => {
+         const interp = new TestInterpreter({}, { maxCallDepth: 30000 });
+         const result = interp.run(`
+            function countDown(n) { return n === 0 ? 'done' : countDown.call(null, n - 1); }
+            countDown(20000);
+         `);
+         expect(result).toBe("done");
+      });
+
+      it("should apply call, apply and bind from the host", () => {
+         const interp = new TestInterpreter();
+         const fn = interp.run("(function(a, b) { return this.base + a + b; })");
+         expect(fn.call({ base: 1 }, 2, 3)).toBe(6);
+         expect(fn.apply({ base: 1 }, [2, 3])).toBe(6);
+         expect(fn.bind({ base: 10 }, 1)(1)).toBe(12);
+      });
+   });
+   describe("ES2015 Syntax", () => {
+      it("should scope let and const to blocks", () => {
+         const interp = new TestInterpreter();
+         expect(interp.run("let x = 1; { let x = 2; const y = 3; } x")).toBe(1);
+         expect(() => interp.run("{ const hidden = 1; } hidden")).toThrow("hidden is not defined");
+      });
+
+      it("should enforce the temporal dead zone", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("{ value; let value = 1; }")).toThrow("Cannot access 'value' before initialization");
+         expect(() => interp.run("function f() { return later; } f(); const later = 1;")).toThrow(ReferenceError);
+      });
+
+      it("should reject assignment to const", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const limit = 1;
+            var message;
+            try { limit = 2; } catch (e) { message = (e instanceof TypeError) + ':' + e.message; }
+            [limit, message];
+         `);
+         expect(result).toEqual([1, "true:Assignment to constant variable."]);
+      });
+
+      it("should create a binding per loop iteration", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var fns = [];
+            for (let i = 0; i < 3; i++) {
+               fns.push(function() { return i; });
+            }
+            var keys = [];
+            for (const key in { a: 1, b: 2 }) {
+               keys.push(function() { return key; });
+            }
+            fns.map(function(f) { return f(); }).concat(keys.map(function(f) { return f(); }));
+         `);
+         expect(result).toEqual([0, 1, 2, "a", "b"]);
+      });
+
+      it("should give arrow functions lexical this and arguments", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var counter = {
+               count: 10,
+               addAll: function() {
+                  return Array.prototype.slice.call(arguments).map(n => this.count + n + arguments.length);
+               }
+            };
+            counter.addAll(1, 2);
+         `);
+         expect(result).toEqual([13, 14]);
+      });
+
+      it("should bind default and rest parameters", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            function f(a, b = a * 2, ...rest) { return [a, b, rest]; }
+            [f(1), f(1, 5, 6, 7), f.length];
+         `);
+         expect(result).toEqual([[1, 2, []], [1, 5, [6, 7]], 1]);
+      });
+
+      it("should spread iterables into calls, arrays and constructors", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            function* letters() { yield 'x'; yield 'y'; }
+            function Pair(a, b) { this.sum = a + b; }
+            [Math.max(...[1, 5, 3], 2), [0, ...'ab', ...letters()], new Pair(...[1, 2]).sum];
+         `);
+         expect(result).toEqual([5, [0, "a", "b", "x", "y"], 3]);
+      });
+
+      it("should spread large iterables into arrays and interpreted calls", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var a = new Array(300000);
+            function count(...values) { return values.length; }
+            [[...a].length, count(...a)];
+         `);
+         expect(result).toEqual([300000, 300000]);
+      });
+
+      it("should evaluate template literals and tagged templates", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var name = 'World';
+            function tag(strings, ...values) {
+               return strings.raw.join('|') + ':' + values.join(',') + ':' + Object.isFrozen(strings);
+            }
+            [\`Hello, \${name}! \${1 + 1}\`, tag\`a\${1}b\\n\${2}\`];
+         `);
+         expect(result).toEqual(["Hello, World! 2", "a|b\\n|:1,2:true"]);
+      });
+
+      it("should reuse the strings array of a template site", () => {
+         const interp = new TestInterpreter();
+         expect(interp.run("function id(s) { return s; } function site() { return id`x`; } site() === site()")).toBe(
+            true,
+         );
+      });
+
+      it("should copy spread properties as data properties", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var calls = 0;
+            var hidden = Symbol('hidden');
+            var src = Object.defineProperty({ a: 1, b: 2, [hidden]: 3 }, 'skip', { value: 4, enumerable: false });
+            var obj = { get a() { return 9; }, set b(v) { calls++; }, ...src, ...'x', ...null };
+            var d = Object.getOwnPropertyDescriptor(obj, 'a');
+            [obj.a, obj.b, obj[hidden], 'skip' in obj, obj[0], calls, d.writable && d.enumerable && d.configurable];
+         `);
+         expect(result).toEqual([1, 2, 3, false, "x", 0, true]);
+      });
+
+      it("should support shorthand and computed properties", () => {
+         const interp = new TestInterpreter();
+         expect(interp.run("var key = 'k'; var n = 1; ({ [key + 1]: 2, n, m() { return 3; } })")).toMatchObject({
+            k1: 2,
+            n: 1,
+         });
+      });
+
+      it("should destructure declarations", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const { a, b: { c = 3 } = {}, ...others } = { a: 1, x: 2, y: 3 };
+            let [first, , third = 9, ...tail] = [1, 2, undefined, 4, 5];
+            [a, c, others, first, third, tail];
+         `);
+         expect(result).toEqual([1, 3, { x: 2, y: 3 }, 1, 9, [4, 5]]);
+      });
+
+      it("should destructure parameters, assignments and catch clauses", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            function area({ width, height = width }) { return width * height; }
+            var swapA = 1, swapB = 2;
+            [swapA, swapB] = [swapB, swapA];
+            var message;
+            try { throw { code: 42 }; } catch ({ code }) { message = code; }
+            [area({ width: 3 }), swapA, swapB, message];
+         `);
+         expect(result).toEqual([9, 2, 1, 42]);
+      });
+
+      it("should report destructuring of undefined and non-iterables", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("const { a } = undefined;")).toThrow(TypeError);
+         expect(() => interp.run("const [a] = 1;")).toThrow("1 is not iterable");
+      });
+
+      it("should close iterators that destructuring does not exhaust", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            var closed = false;
+            function* numbers() {
+               try { yield 1; yield 2; yield 3; } finally { closed = true; }
+            }
+            const [one] = numbers();
+            [one, closed];
+         `);
+         expect(result).toEqual([1, true]);
+      });
+
+      it("should evaluate the object of a method call once", () => {
+         const interp = new TestInterpreter();
+         expect(interp.run("var calls = 0; function get() { calls++; return [1, 2]; } get().join('-'); calls")).toBe(1);
+      });
+   });
+   describe("Classes", () => {
+      it("should define constructors, methods, accessors and static members", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            class Counter {
+               constructor(start) { this.count = start; }
+               increment() { return ++this.count; }
+               get double() { return this.count * 2; }
+               static create() { return new this(10); }
+            }
+            const counter = Counter.create();
+            counter.increment();
+            [counter.count, counter.double, counter instanceof Counter, Object.keys(Counter.prototype)];
+         `);
+         expect(result).toEqual([11, 22, true, []]);
+      });
+
+      it("should inherit from interpreted classes with super calls", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            class Animal {
+               constructor(name) { this.name = name; }
+               speak() { return this.name + ' makes a sound'; }
+               static kind() { return 'animal'; }
+            }
+            class Dog extends Animal {
+               constructor(name) { super(name); this.tricks = 0; }
+               speak() { return super.speak() + ' (woof)'; }
+            }
+            class Puppy extends Dog {}
+            const puppy = new Puppy('Rex');
+            [puppy.speak(), puppy.tricks, puppy instanceof Animal, Puppy.kind(), Object.getPrototypeOf(Dog) === Animal];
+         `);
+         expect(result).toEqual(["Rex makes a sound (woof)", 0, true, "animal", true]);
+      });
+
+      it("should extend native Error, Array and EventTarget", () => {
+         const interp = new TestInterpreter({ EventTarget, Event });
+         const result = interp.run(`
+            class ValidationError extends Error {
+               constructor(message) { super(message); this.name = 'ValidationError'; }
+            }
+            class Stack extends Array {
+               peek() { return this[this.length - 1]; }
+            }
+            class Emitter extends EventTarget {
+               constructor() { super(); this.fired = 0; }
+            }
+            const error = new ValidationError('invalid');
+            const stack = new Stack();
+            stack.push(1, 2);
+            const emitter = new Emitter();
+            emitter.addEventListener('ping', () => emitter.fired++);
+            emitter.dispatchEvent(new Event('ping'));
+            [
+               error instanceof ValidationError, error instanceof Error, String(error),
+               stack.peek(), stack.length, Array.isArray(stack),
+               emitter.fired, emitter instanceof EventTarget,
+            ];
+         `);
+         expect(result).toEqual([true, true, "ValidationError: invalid", 2, 2, true, 1, true]);
+      });
+
+      it("should let sandboxed classes extend host base classes", () => {
+         class Plugin {
+            name: string;
+            constructor(name: string) {
+               this.name = name;
+            }
+            describe() {
+               return `plugin ${this.name}: ${(this as any).run()}`;
+            }
+         }
+         const interp = new TestInterpreter({ Plugin });
+         const plugin = interp.run(`
+            class Greeter extends Plugin {
+               constructor() { super('greeter'); }
+               run() { return 'hello'; }
+            }
+            new Greeter();
+         `);
+         expect(plugin).toBeInstanceOf(Plugin);
+         expect(plugin.describe()).toBe("plugin greeter: hello");
+      });
+
+      it("should expose new.target", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            class Base { constructor() { this.target = new.target.name; } }
+            class Derived extends Base {}
+            function Plain() { return new.target; }
+            [new Base().target, new Derived().target, Plain() === undefined];
+         `);
+         expect(result).toEqual(["Base", "Derived", true]);
+      });
+
+      it("should initialize instance and static fields", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            class Config {
+               retries = 3;
+               delay = this.retries * 100;
+               static defaults = new Config();
+               static { this.ready = true; }
+            }
+            class Extended extends Config { extra = this.delay + 1; }
+            [new Extended().extra, Config.defaults.delay, Config.ready];
+         `);
+         expect(result).toEqual([301, 300, true]);
+      });
+
+      it("should enforce class constructor semantics", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("class A {} A();")).toThrow("Class constructor A cannot be invoked without 'new'");
+         expect(() => interp.run("class B extends Object { constructor() { this.x = 1; super(); } } new B();")).toThrow(
+            ReferenceError,
+         );
+         expect(() => interp.run("class C extends 42 {}")).toThrow(
+            "Class extends value 42 is not a constructor or null",
+         );
+         expect(() => interp.run("new D(); class D {}")).toThrow("Cannot access 'D' before initialization");
+      });
+
+      it("should name class expressions and print their source", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const Anonymous = class {};
+            const Named = class Inner { static self() { return Inner; } };
+            class Printed { m() {} }
+            [Anonymous.name, Named.name, Named.self() === Named, Printed.toString()];
+         `);
+         expect(result).toEqual(["Anonymous", "Inner", true, "class Printed { m() {} }"]);
+      });
+
+      it("should construct sandboxed classes from the host", () => {
+         const interp = new TestInterpreter();
+         const Point = interp.run("class Point { constructor(x) { this.x = x; } } Point");
+         expect(new Point(3).x).toBe(3);
+         expect(() => Point(3)).toThrow(TypeError);
+      });
+   });
+
+   describe("for...of and Iterators", () => {
+      it("should iterate arrays, strings and host iterables", () => {
+         const interp = new TestInterpreter({
+            map: new Map([
+               ["a", 1],
+               ["b", 2],
+            ]),
+            set: new Set(["x", "y"]),
+         });
+         const result = interp.run(`
+            const out = [];
+            for (const n of [1, 2]) out.push(n);
+            for (const c of 'hi') out.push(c);
+            for (const [key, value] of map) out.push(key + value);
+            for (const item of set) out.push(item);
+            out;
+         `);
+         expect(result).toEqual([1, 2, "h", "i", "a1", "b2", "x", "y"]);
+      });
+
+      it("should iterate custom iterables and interpreted generators", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const range = {
+               [Symbol.iterator]() {
+                  let i = 0;
+                  return { next: () => i < 3 ? { value: i++, done: false } : { value: undefined, done: true } };
+               },
+            };
+            function* letters() { yield 'a'; yield 'b'; }
+            const out = [];
+            for (const n of range) out.push(n);
+            for (const l of letters()) out.push(l);
+            out;
+         `);
+         expect(result).toEqual([0, 1, 2, "a", "b"]);
+      });
+
+      it("should bind let, var, destructuring and assignment targets", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const fns = [];
+            for (let i of [1, 2, 3]) fns.push(() => i);
+            for (var v of [4, 5]) {}
+            const target = {};
+            for (target.last of [6, 7]) {}
+            const sums = [];
+            for (const { a, b = 10 } of [{ a: 1, b: 2 }, { a: 3 }]) sums.push(a + b);
+            [fns.map(f => f()), v, target.last, sums];
+         `);
+         expect(result).toEqual([[1, 2, 3], 5, 7, [3, 13]]);
+      });
+
+      it("should support break, continue and labels", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const out = [];
+            outer: for (const row of [[1, 2], [3, 4], [5, 6]]) {
+               for (const n of row) {
+                  if (n === 2) continue;
+                  if (n === 5) break outer;
+                  out.push(n);
+               }
+            }
+            out;
+         `);
+         expect(result).toEqual([1, 3, 4]);
+      });
+
+      it("should continue an outer loop by its label", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            let s = 0;
+            const log = [];
+            function* inner() {
+               try { yield 1; yield 2; yield 3; } finally { log.push('closed'); }
+            }
+            outer: for (const i of [1, 2, 3]) {
+               for (const j of inner()) {
+                  if (j == 2) continue outer;
+                  s++;
+               }
+            }
+            [s, log.length];
+         `);
+         expect(result).toEqual([3, 3]);
+      });
+
+      it("should close iterators on break, return and throw", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const log = [];
+            function* numbers() {
+               try { yield 1; yield 2; yield 3; } finally { log.push('closed'); }
+            }
+            for (const n of numbers()) { if (n === 2) break; }
+            (function () { for (const n of numbers()) return n; })();
+            try { for (const n of numbers()) throw new Error('boom'); } catch (e) { log.push(e.message); }
+            for (const n of numbers()) {}
+            log;
+         `);
+         expect(result).toEqual(["closed", "closed", "closed", "boom", "closed"]);
+      });
+
+      it("should close host iterators and keep the original error", () => {
+         let returns = 0;
+         const iterable = {
+            [Symbol.iterator]: () => ({
+               next: () => ({ value: 1, done: false }),
+               return: () => {
+                  returns++;
+                  throw new Error("from return");
+               },
+            }),
+         };
+         const interp = new TestInterpreter({ iterable });
+         expect(() => interp.run("for (const x of iterable) { throw new Error('body'); }")).toThrow("body");
+         expect(() => interp.run("for (const x of iterable) { break; }")).toThrow("from return");
+         expect(returns).toBe(2);
+      });
+
+      it("should close iterators when destructuring stops early or fails", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const log = [];
+            function* numbers() {
+               try { yield 1; yield 2; yield 3; } finally { log.push('closed'); }
+            }
+            const [first] = numbers();
+            try {
+               const [{ missing }] = (function* () { try { yield null; } finally { log.push('failed'); } })();
+            } catch (e) {
+               log.push(e instanceof TypeError);
+            }
+            [first, log];
+         `);
+         expect(result).toEqual([1, ["closed", "failed", true]]);
+      });
+
+      it("should not iterate non-iterables", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("for (const x of { length: 1, 0: 'a' }) {}")).toThrow(TypeError);
+      });
+   });
+
+   describe("Async Functions", () => {
+      it("should run until the first await and resolve with the return value", async () => {
+         const log: string[] = [];
+         const interp = new TestInterpreter({ log: (message: string) => log.push(message) });
+         const promise = interp.run(`
+            async function double(value) {
+               log('start');
+               const resolved = await value;
+               log('resumed');
+               return resolved * 2;
+            }
+            const result = double(Promise.resolve(21));
+            log('after call');
+            result;
+         `);
+         expect(promise).toBeInstanceOf(Promise);
+         expect(log).toEqual(["start", "after call"]);
+         expect(await promise).toBe(42);
+         expect(log).toEqual(["start", "after call", "resumed"]);
+      });
+
+      it("should support async arrows, methods and lexical this", async () => {
+         const interp = new TestInterpreter();
+         const result = await interp.run(`
+            const wait = async (value) => await value;
+            class Store {
+               constructor() { this.items = ['a', 'b']; }
+               async count() { return (await wait(this.items)).length; }
+            }
+            const api = {
+               prefix: '#',
+               async label(n) {
+                  const format = async () => this.prefix + n;
+                  return await format();
+               },
+            };
+            (async () => [await new Store().count(), await api.label(1), await 5])();
+         `);
+         expect(result).toEqual([2, "#1", 5]);
+      });
+
+      it("should turn rejections into exceptions and exceptions into rejections", async () => {
+         const interp = new TestInterpreter();
+         const result = await interp.run(`
+            async function fail(message) { throw new Error(message); }
+            async function run() {
+               const caught = [];
+               try { await fail('one'); } catch (e) { caught.push(e.message); }
+               try { await Promise.reject(new TypeError('two')); } catch (e) { caught.push(e instanceof TypeError); }
+               try { await fail('three'); } finally { caught.push('finally'); }
+            }
+            run().catch((e) => e.message);
+         `);
+         expect(result).toBe("three");
+      });
+
+      it("should reject when parameter binding fails", async () => {
+         const interp = new TestInterpreter();
+         const promise = interp.run("async function f({ a }) { return a; } f();");
+         await expect(promise).rejects.toThrow(TypeError);
+      });
+
+      it("should not construct async functions", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("async function f() {} new f();")).toThrow(TypeError);
+      });
+
+      it("should evaluate top-level await to a promise", async () => {
+         const interp = new TestInterpreter({
+            delay: (value: any) => new Promise((r) => setTimeout(() => r(value), 5)),
+         });
+         const promise = interp.run(
+            `
+            const first = await delay(1);
+            const second = await delay(first + 1);
+            first + second;
+         `,
+            { topLevelAwait: true },
+         );
+         expect(promise).toBeInstanceOf(Promise);
+         expect(await promise).toBe(3);
+         expect(interp.run("typeof first")).toBe("number");
+      });
+
+      it("should keep await an identifier in scripts unless top-level await is enabled", () => {
+         const interp = new TestInterpreter();
+         expect(interp.run("var await = 5; await")).toBe(5);
+         expect(() => interp.run("var await = 5; await", { topLevelAwait: true })).toThrow(SyntaxError);
+         expect(() => interp.run("await Promise.resolve(1)")).toThrow(SyntaxError);
+      });
+
+      it("should iterate async iterables and sync iterables of promises with for await", async () => {
+         const interp = new TestInterpreter();
+         const result = await interp.run(
+            `
+            const ticks = {
+               [Symbol.asyncIterator]() {
+                  let i = 0;
+                  return { next: async () => ({ value: i, done: i++ >= 3 }) };
+               },
+            };
+            const out = [];
+            for await (const n of ticks) out.push(n);
+            for await (const n of [Promise.resolve('a'), 'b']) out.push(n);
+            out;
+         `,
+            { topLevelAwait: true },
+         );
+         expect(result).toEqual([0, 1, 2, "a", "b"]);
+      });
+
+      it("should close async iterators and iterate host async generators", async () => {
+         async function* hostNumbers() {
+            yield 1;
+            yield 2;
+            yield 3;
+         }
+         const interp = new TestInterpreter({ hostNumbers });
+         const result = await interp.run(
+            `
+            let closed = false;
+            const iterable = {
+               [Symbol.asyncIterator]() {
+                  return {
+                     next: async () => ({ value: 1, done: false }),
+                     return: async () => { closed = true; return { done: true }; },
+                  };
+               },
+            };
+            for await (const x of iterable) break;
+            const numbers = [];
+            for await (const n of hostNumbers()) numbers.push(n);
+            [closed, numbers];
+         `,
+            { topLevelAwait: true },
+         );
+         expect(result).toEqual([true, [1, 2, 3]]);
+      });
+
+      it("should hold jobs until the host runs them when autoRunJobs is false", async () => {
+         const log: string[] = [];
+         const interp = new TestInterpreter({ log: (message: string) => log.push(message) }, { autoRunJobs: false });
+         interp.run(`
+            (async () => {
+               log('a');
+               await null;
+               log('b');
+               await null;
+               log('c');
+            })();
+         `);
+         await new Promise((resolve) => setTimeout(resolve, 0));
+         expect(log).toEqual(["a"]);
+         expect(interp.pendingJobs).toBe(1);
+
+         expect(interp.runJobs(1)).toBe(0);
+         expect(log).toEqual(["a", "b"]);
+         await new Promise((resolve) => setTimeout(resolve, 0));
+         expect(interp.runJobs()).toBe(0);
+         expect(log).toEqual(["a", "b", "c"]);
+      });
+
+      it("should give each job its own operation budget", async () => {
+         const interp = new TestInterpreter({}, { maxOps: 500 });
+         const result = await interp.run(`
+            (async () => {
+               let total = 0;
+               for (let round = 0; round < 5; round++) {
+                  for (let i = 0; i < 10; i++) total += i;
+                  await null;
+               }
+               return total;
+            })();
+         `);
+         expect(result).toBe(225);
+
+         const manual = new TestInterpreter({}, { maxOps: 500, autoRunJobs: false });
+         manual.run("(async () => { await null; while (true) {} })()");
+         await Promise.resolve();
+         expect(() => manual.runJobs()).toThrow(ExecutionTimeoutError);
+      });
+
+      it("should throw interrupts in jobs to the host without running sandbox handlers", async () => {
+         const interp = new TestInterpreter(
+            { tick: () => new Promise((resolve) => setTimeout(resolve, 1)) },
+            { timeoutMs: 20, autoRunJobs: false },
+         );
+         interp.run(`
+            var caught = [];
+            async function spin() {
+               await tick();
+               try { while (true) {} } catch (e) { caught.push('try'); }
+            }
+            async function outer() {
+               try { await spin(); } catch (e) { caught.push('await'); }
+            }
+            spin().catch(() => caught.push('catch'));
+            outer();
+         `);
+         await new Promise((resolve) => setTimeout(resolve, 10));
+         expect(() => interp.runJobs()).toThrow(ExecutionTimeoutError);
+         while (interp.pendingJobs > 0) {
+            try {
+               interp.runJobs();
+            } catch (e) {
+               expect(e).toBeInstanceOf(ExecutionTimeoutError);
+            }
+            await new Promise((resolve) => setTimeout(resolve, 1));
+         }
+         expect(interp.run("caught")).toEqual([]);
+      });
+
+      it("should reject awaiting functions when aborted", async () => {
+         const controller = new AbortController();
+         let release: () => void = () => {};
+         const interp = new TestInterpreter(
+            {
+               wait: () =>
+                  new Promise<void>((resolve) => {
+                     release = resolve;
+                  }),
+            },
+            { signal: controller.signal },
+         );
+         const waiting = interp.run("(async () => { await wait(); return 'resumed'; })()");
+         const queued = interp.run("(async () => { await null; await null; return 'resumed'; })()");
+
+         controller.abort("shutdown");
+         release();
+         await expect(waiting).rejects.toThrow(ExecutionAbortedError);
+         await expect(queued).rejects.toThrow(ExecutionAbortedError);
+         expect(interp.pendingJobs).toBe(0);
+      });
+
+      it("should reject async generator functions", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("async function* g() {}")).toThrow(SyntaxError);
+      });
+   });
+
+   describe("Optional Chaining and Nullish Operators", () => {
+      it("should short-circuit optional member access for the whole chain", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const user = { profile: { name: 'Ada', tags: ['x'] } };
+            const missing = null;
+            let evaluated = false;
+            [
+               user?.profile?.name,
+               user.profile?.['tags']?.[0],
+               missing?.profile.name,
+               missing?.[(evaluated = true)],
+               user.settings?.theme.color,
+               evaluated,
+            ];
+         `);
+         expect(result).toEqual(["Ada", "x", undefined, undefined, undefined, false]);
+      });
+
+      it("should preserve this for optional calls", () => {
+         const interp = new TestInterpreter({
+            host: {
+               items: [1, 2],
+               count() {
+                  return this.items.length;
+               },
+            },
+         });
+         const result = interp.run(`
+            const counter = { n: 3, get() { return this.n; } };
+            const none = undefined;
+            [
+               counter.get?.(),
+               counter?.get(),
+               (counter?.get)(),
+               counter.missing?.(),
+               none?.get(),
+               host?.count?.(),
+               counter.get?.().toString(),
+            ];
+         `);
+         expect(result).toEqual([3, 3, 3, undefined, undefined, 2, "3"]);
+      });
+
+      it("should still throw when a non-optional link is nullish", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("const a = { b: null }; a?.b.c")).toThrow(TypeError);
+         expect(() => interp.run("const f = { g: 1 }; f.g?.()")).toThrow(TypeError);
+      });
+
+      it("should delete through optional chains", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const obj = { a: { b: 1 } };
+            const none = null;
+            [delete obj?.a.b, 'b' in obj.a, delete none?.a];
+         `);
+         expect(result).toEqual([true, false, true]);
+      });
+
+      it("should evaluate nullish coalescing", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            let calls = 0;
+            const fallback = () => { calls++; return 'fallback'; };
+            [null ?? fallback(), undefined ?? fallback(), 0 ?? fallback(), '' ?? fallback(), false ?? fallback(), calls];
+         `);
+         expect(result).toEqual(["fallback", "fallback", 0, "", false, 2]);
+      });
+
+      it("should evaluate logical assignment with short-circuiting", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            let calls = 0;
+            const next = (value) => { calls++; return value; };
+            const options = { retries: 0, name: '', timeout: null };
+            options.retries ||= next(3);
+            options.name &&= next('unused');
+            options.timeout ??= next(1000);
+            options.timeout ??= next(5);
+            let a = 1;
+            a &&= next(2);
+            let b = null;
+            const result = (b ??= next('set'));
+            [options, a, b, result, calls];
+         `);
+         expect(result).toEqual([{ retries: 3, name: "", timeout: 1000 }, 2, "set", "set", 4]);
+      });
+
+      it("should not write to the target when logical assignment short-circuits", () => {
+         const interp = new TestInterpreter();
+         const result = interp.run(`
+            const frozen = Object.freeze({ value: 1 });
+            frozen.value ||= 2;
+            const named = {};
+            named.fn ??= function () {};
+            let handler;
+            handler ??= () => {};
+            [frozen.value, named.fn.name, handler.name];
+         `);
+         expect(result).toEqual([1, "", "handler"]);
+      });
+
+      it("should evaluate exponent assignment", () => {
+         const interp = new TestInterpreter();
+         expect(interp.run("let x = 3; x **= 2; x")).toBe(9);
+      });
+   });
+
+   describe("ES Modules", () => {
+      // Loader over an in-memory file map, resolving specifiers relative to the importer
+      function createLoader(files: Record<string, string>, loads: string[] = []) {
+         return {
+            resolve: (specifier: string, referrer: string | undefined) =>
+               new URL(specifier, `file://${referrer ?? "/"}`).pathname,
+            load: async (url: string) => {
+               loads.push(url);
+               if (!(url in files)) throw new Error(`Module not found: ${url}`);
+               return parseModule(files[url]);
+            },
+         };
+      }
+
+      it("should import named, default and namespace bindings", async () => {
+         const interp = new TestInterpreter(
+            {},
+            {
+               moduleLoader: createLoader({
+                  "/main.js": `
+                     import greet, { name as who, shout } from './lib/greet.js';
+                     import * as greeting from './lib/greet.js';
+                     export const message = greet(who);
+                     export const loud = shout(greeting.name);
+                     export const keys = Object.keys(greeting);
+                  `,
+                  "/lib/greet.js": `
+                     export const name = 'world';
+                     export function shout(text) { return text.toUpperCase() + '!'; }
+                     export default (who) => 'hello ' + who;
+                  `,
+               }),
+            },
+         );
+         const ns = await interp.evaluateModule("/main.js");
+         expect(ns.message).toBe("hello world");
+         expect(ns.loud).toBe("WORLD!");
+         expect(ns.keys).toEqual(["default", "name", "shout"]);
+         expect(Object.prototype.toString.call(ns)).toBe("[object Module]");
+         expect(Object.isExtensible(ns)).toBe(false);
+      });
+
+      it("should expose live bindings that importers cannot assign", async () => {
+         const interp = new TestInterpreter(
+            {},
+            {
+               moduleLoader: createLoader({
+                  "/main.js": `
+                     import { count, increment } from './counter.js';
+                     const before = count;
+                     increment();
+                     increment();
+                     let error;
+                     try { count = 10; } catch (e) { error = e instanceof TypeError; }
+                     export const result = [before, count, error];
+                  `,
+                  "/counter.js": "export let count = 0; export function increment() { count++; }",
+               }),
+            },
+         );
+         const ns = await interp.evaluateModule("/main.js");
+         expect(ns.result).toEqual([0, 2, true]);
+      });
+
+      it("should evaluate each module once and cache the instance", async () => {
+         const loads: string[] = [];
+         const log: string[] = [];
+         const interp = new TestInterpreter(
+            { log: (message: string) => log.push(message) },
+            {
+               moduleLoader: createLoader(
+                  {
+                     "/a.js": "import './shared.js'; log('a');",
+                     "/b.js": "import './shared.js'; log('b');",
+                     "/shared.js": "log('shared'); export const value = {};",
+                  },
+                  loads,
+               ),
+            },
+         );
+         await interp.evaluateModule("/a.js");
+         await interp.evaluateModule("/b.js");
+         const first = await interp.evaluateModule("/shared.js");
+         const second = await interp.evaluateModule("./shared.js");
+         expect(log).toEqual(["shared", "a", "b"]);
+         expect(loads).toEqual(["/a.js", "/shared.js", "/b.js"]);
+         expect(first).toBe(second);
+      });
+
+      it("should link cyclic imports with hoisted functions", async () => {
+         const interp = new TestInterpreter(
+            {},
+            {
+               moduleLoader: createLoader({
+                  "/even.js": `
+                     import { isOdd } from './odd.js';
+                     export function isEven(n) { return n === 0 ? true : isOdd(n - 1); }
+                  `,
+                  "/odd.js": `
+                     import { isEven } from './even.js';
+                     export function isOdd(n) { return n === 0 ? false : isEven(n - 1); }
+                     export const sevenIsOdd = isOdd(7);
+                  `,
+               }),
+            },
+         );
+         const ns = await interp.evaluateModule("/even.js");
+         expect(ns.isEven(10)).toBe(true);
+         expect((await interp.evaluateModule("/odd.js")).sevenIsOdd).toBe(true);
+      });
+
+      it("should re-export bindings and namespaces", async () => {
+         const interp = new TestInterpreter(
+            {},
+            {
+               moduleLoader: createLoader({
+                  "/index.js": `
+                     export * from './math.js';
+                     export { default as format, default } from './format.js';
+                     export * as strings from './strings.js';
+                  `,
+                  "/math.js": "export const add = (a, b) => a + b; export default 'math default';",
+                  "/format.js": "export default function (n) { return '#' + n; }",
+                  "/strings.js": "export const upper = (s) => s.toUpperCase();",
+               }),
+            },
+         );
+         const ns = await interp.evaluateModule("/index.js");
+         expect(Object.keys(ns)).toEqual(["add", "default", "format", "strings"]);
+         expect(ns.format(ns.add(1, 2))).toBe("#3");
+         expect(ns.default).toBe(ns.format);
+         expect(ns.format.name).toBe("default");
+         expect(ns.strings.upper("x")).toBe("X");
+      });
+
+      it("should support import.meta, dynamic import() and top-level await", async () => {
+         const interp = new TestInterpreter(
+            {},
+            {
+               moduleLoader: createLoader({
+                  "/app/main.js": `
+                     const { load } = await import('./plugins/loader.js');
+                     export const url = import.meta.url;
+                     export const plugin = await load('hello');
+                  `,
+                  "/app/plugins/loader.js":
+                     "export const load = (name) => import('./' + name + '.js').then((m) => m.default);",
+                  "/app/plugins/hello.js": "export default { name: 'hello', url: import.meta.url };",
+               }),
+            },
+         );
+         const ns = await interp.evaluateModule("/app/main.js");
+         expect(ns.url).toBe("/app/main.js");
+         expect(ns.plugin).toEqual({ name: "hello", url: "/app/plugins/hello.js" });
+      });
+
+      it("should import modules dynamically from scripts", async () => {
+         const interp = new TestInterpreter(
+            {},
+            { moduleLoader: createLoader({ "/tools.js": "export const double = (n) => n * 2;" }) },
+         );
+         const result = await interp.run("import('/tools.js').then((tools) => tools.double(21))");
+         expect(result).toBe(42);
+      });
+
+      it("should reject missing exports, missing modules and failed evaluation", async () => {
+         const interp = new TestInterpreter(
+            {},
+            {
+               moduleLoader: createLoader({
+                  "/missing-export.js": "import { nope } from './lib.js';",
+                  "/missing-module.js": "import './nowhere.js';",
+                  "/throws.js": "export const before = 1; throw new Error('module failed');",
+                  "/lib.js": "export const yes = 1;",
+               }),
+            },
+         );
+         await expect(interp.evaluateModule("/missing-export.js")).rejects.toThrow(
+            "does not provide an export named 'nope'",
+         );
+         await expect(interp.evaluateModule("/missing-module.js")).rejects.toThrow("Module not found: /nowhere.js");
+         await expect(interp.evaluateModule("/throws.js")).rejects.toThrow("module failed");
+         await expect(interp.evaluateModule("/throws.js")).rejects.toThrow("module failed");
+      });
+
+      it("should require a module loader", async () => {
+         const interp = new TestInterpreter();
+         await expect(interp.evaluateModule("/main.js")).rejects.toThrow(TypeError);
+      });
+
+      it("should import host-defined modules without a loader", async () => {
+         const store = new Map<string, any>();
+         const storage = {
+            get: (key: string) => store.get(key),
+            set: (key: string, value: any) => store.set(key, value),
+         };
+         const interp = new TestInterpreter();
+         interp.defineModule("app:storage", storage);
+         interp.defineModule("app:config", { default: { theme: "dark" }, version: 2 });
+
+         const result = await interp.run(`
+            (async () => {
+               const { get, set } = await import('app:storage');
+               const storage = (await import('app:storage')).default;
+               const config = await import('app:config');
+               set('greeting', 'hi');
+               return [get('greeting'), storage.get('greeting'), config.default.theme, config.version];
+            })();
+         `);
+         expect(result).toEqual(["hi", "hi", "dark", 2]);
+         expect(store.get("greeting")).toBe("hi");
+      });
+
+      it("should let modules import host-defined modules statically", async () => {
+         const api = { version: 1, bump: () => api.version++ };
+         const interp = new TestInterpreter(
+            {},
+            {
+               moduleLoader: createLoader({
+                  "/plugin.js": `
+            import api, { version, bump } from 'app:api';
+            const before = version;
+            bump();
+            export const versions = [before, version, api.version];
+         `,
+               }),
+            },
+         );
+         interp.defineModule("app:api", api);
+         const ns = await interp.evaluateModule("/plugin.js");
+         expect(ns.versions).toEqual([1, 2, 2]);
+         expect(() => interp.defineModule("app:api", {})).toThrow("already defined");
+      });
+
+      it("should check permissions for each importer", async () => {
+         const allow = vi.fn((importer: string | undefined) => importer?.startsWith("/trusted/") ?? false);
+         const interp = new TestInterpreter(
+            {},
+            {
+               moduleLoader: createLoader({
+                  "/trusted/main.js": "export { read } from 'app:secrets';",
+                  "/untrusted/main.js": `
+                     let denied;
+                     try { await import('app:secrets'); } catch (e) { denied = e.name; }
+                     export { denied };
+                  `,
+                  "/untrusted/static.js": "import { read } from 'app:secrets';",
+               }),
+            },
+         );
+         interp.defineModule("app:secrets", { read: () => "secret" }, { allow });
+
+         expect((await interp.evaluateModule("/trusted/main.js")).read()).toBe("secret");
+         expect((await interp.evaluateModule("/untrusted/main.js")).denied).toBe("ModuleAccessError");
+         await expect(interp.evaluateModule("/untrusted/static.js")).rejects.toThrow(ModuleAccessError);
+         await expect(interp.run("import('app:secrets')")).rejects.toThrow(ModuleAccessError);
+         expect(allow.mock.calls.map(([importer]) => importer)).toEqual([
+            "/trusted/main.js",
+            "/untrusted/main.js",
+            "/untrusted/static.js",
+            undefined,
+         ]);
+      });
+   });
+
+   describe("CommonJS Modules", () => {
+      function createLoader(files: Record<string, string>, loads: string[] = []) {
+         return {
+            resolve: (specifier: string, referrer: string | undefined) =>
+               new URL(specifier, `file://${referrer ?? "/"}`).pathname,
+            load: (id: string) => {
+               loads.push(id);
+               if (!(id in files)) throw new Error(`Cannot find module '${id}'`);
+               return parse(files[id]);
+            },
+         };
+      }
+
+      it("should return module.exports and support exports shorthand", () => {
+         const interp = new TestInterpreter();
+         expect(interp.evaluateCommonJS(parse("exports.a = 1; exports.b = this === exports;"))).toEqual({
+            a: 1,
+            b: true,
+         });
+         const fn = interp.evaluateCommonJS(parse("module.exports = function add(a, b) { return a + b; };"));
+         expect(fn(2, 3)).toBe(5);
+      });
+
+      it("should keep module scope variables out of the global scope", () => {
+         const interp = new TestInterpreter();
+         interp.evaluateCommonJS(parse("var hidden = 1; function helper() {} exports.x = 1;"));
+         for (const name of ["hidden", "helper", "module", "exports", "require"]) {
+            expect(() => interp.run(name)).toThrow(ReferenceError);
+         }
+      });
+
+      it("should require modules relative to the requiring module and cache them", () => {
+         const loads: string[] = [];
+         const interp = new TestInterpreter(
+            {},
+            {
+               commonJSLoader: createLoader(
+                  {
+                     "/lib/math.js":
+                        "let calls = 0; exports.square = (x) => (calls++, x * x); exports.calls = () => calls;",
+                     "/lib/index.js":
+                        "const math = require('./math.js'); module.exports = { cube: (x) => x * math.square(x) };",
+                  },
+                  loads,
+               ),
+            },
+         );
+         const result = interp.evaluateCommonJS(
+            parse(`
+               const { cube } = require('./lib/index.js');
+               const math = require('./lib/math.js');
+               module.exports = [cube(3), math.square(2), math.calls(), require('./lib/math.js') === math];
+            `),
+            "/main.js",
+         );
+         expect(result).toEqual([27, 4, 2, true]);
+         expect(loads).toEqual(["/lib/index.js", "/lib/math.js"]);
+      });
+
+      it("should return unfinished exports for require cycles", () => {
+         const interp = new TestInterpreter(
+            {},
+            {
+               commonJSLoader: createLoader({
+                  "/a.js": "exports.loaded = false; const b = require('./b.js'); exports.loaded = true; exports.b = b;",
+                  "/b.js": "const a = require('./a.js'); exports.sawA = a.loaded; exports.aLoaded = () => a.loaded;",
+               }),
+            },
+         );
+         const a = interp.evaluateCommonJS(parse("module.exports = require('./a.js');"), "/main.js");
+         expect(a.loaded).toBe(true);
+         expect(a.b.sawA).toBe(false);
+         expect(a.b.aLoaded()).toBe(true);
+      });
+
+      it("should not cache modules that throw", () => {
+         let fail = true;
+         const interp = new TestInterpreter(
+            { shouldFail: () => fail },
+            {
+               commonJSLoader: createLoader({
+                  "/flaky.js": "if (shouldFail()) throw new Error('boom'); exports.ok = true;",
+               }),
+            },
+         );
+         const main = parse(`
+            let error;
+            try { require('./flaky.js'); } catch (e) { error = e.message; }
+            exports.error = error;
+         `);
+         expect(interp.evaluateCommonJS(main).error).toBe("boom");
+         fail = false;
+         expect(interp.evaluateCommonJS(parse("module.exports = require('./flaky.js');"))).toEqual({ ok: true });
+      });
+
+      it("should require host-defined modules with permission checks", () => {
+         const storage = { get: (key: string) => `value of ${key}` };
+         const interp = new TestInterpreter();
+         interp.defineModule("app:storage", storage, { allow: (importer) => importer === "/trusted.js" });
+
+         expect(interp.evaluateCommonJS(parse("module.exports = require('app:storage');"), "/trusted.js")).toBe(
+            storage,
+         );
+         const denied = interp.evaluateCommonJS(
+            parse("try { require('app:storage'); } catch (e) { exports.error = e.name; }"),
+            "/untrusted.js",
+         );
+         expect(denied.error).toBe("ModuleAccessError");
+         expect(() => interp.evaluateCommonJS(parse("require('./missing.js')"))).toThrow("no commonJSLoader");
+      });
+
+      it("should reject top-level await", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.evaluateCommonJS(parse("await 1;"))).toThrow(SyntaxError);
+      });
+   });
+
+   describe("Error Locations", () => {
+      it("should attach the failing location and interpreted stack to errors", () => {
+         const interp = new TestInterpreter();
+         let error: any;
+         try {
+            interp.run("function read(o) {\n  return o.a.b;\n}\nfunction run() { return read({}); }\nrun();");
+         } catch (e) {
+            error = e;
+         }
+         expect(error).toBeInstanceOf(TypeError);
+         expect(error.loc).toEqual({ line: 2, column: 9 });
+         expect(error.callStack).toEqual([
+            { functionName: "read", line: 2, column: 9 },
+            { functionName: "run", line: 4, column: 24 },
+            { functionName: "<top-level>", line: 5, column: 0 },
+         ]);
+         expect(error.stack.split("\n").slice(1)).toEqual([
+            "    at read (2:10)",
+            "    at run (4:25)",
+            "    at <top-level> (5:1)",
+         ]);
+      });
+
+      it("should point at calls of values that are not functions", () => {
+         const interp = new TestInterpreter();
+         expect(() => interp.run("var api = {};\napi.missing(1, 2);")).toThrow(
+            expect.objectContaining({ loc: { line: 2, column: 0 } }),
+         );
+         expect(() => interp.run("\n  undefinedVariable;")).toThrow(
+            expect.objectContaining({ name: "ReferenceError", loc: { line: 2, column: 2 } }),
+         );
+      });
+
+      it("should show the interpreted stack to sandboxed code", () => {
+         const interp = new TestInterpreter();
+         const stack = interp.run(`
+            function fail() { return null.property; }
+            try { fail(); } catch (e) { e.stack; }
+         `);
+         expect(stack).toMatch(/^TypeError: .*\n {4}at fail \(2:38\)\n {4}at <top-level> \(3:19\)$/);
+      });
+
+      it("should capture the stack where sandboxed code creates an error", () => {
+         const interp = new TestInterpreter({ invoke: (fn: any) => fn() });
+         let error: any;
+         try {
+            interp.run(`
+               function create() { return new Error("boom"); }
+               const error = invoke(function callback() { return create(); });
+               function rethrow() { throw error; }
+               rethrow();
+            `);
+         } catch (e) {
+            error = e;
+         }
+         expect(error.message).toBe("boom");
+         expect(error.callStack.map((site: any) => `${site.functionName}:${site.line}`)).toEqual([
+            "create:2",
+            "callback:3",
+            "<top-level>:3",
+         ]);
+         expect(error.stack).not.toContain("interpreter.ts");
+      });
+
+      it("should list host callbacks without a top-level frame", () => {
+         const interp = new TestInterpreter();
+         const handler = interp.run("(function handler() { throw new TypeError('bad'); })");
+         try {
+            handler();
+         } catch (e: any) {
+            expect(e.callStack).toEqual([{ functionName: "handler", line: 1, column: 28 }]);
+         }
+         expect.assertions(1);
+      });
+
+      it("should keep the location of parse errors", () => {
+         expect(() => parse("var x = 1;\nvar = 2;")).toThrow(
+            expect.objectContaining({ name: "SyntaxError", loc: expect.objectContaining({ line: 2, column: 4 }) }),
+         );
+      });
+   });
+
+   describe("Debugger", () => {
+      const source = [
+         "function add(a, b) {",
+         "  const sum = a + b;",
+         "  return sum;",
+         "}",
+         "let total = 0;",
+         "for (let i = 0; i < 3; i++) {",
+         "  total = add(total, i);",
+         "}",
+         "total;",
+      ].join("\n");
+
+      it("should pause at breakpoints and expose frames and scopes", () => {
+         const interp = new TestInterpreter();
+         const execution = interp.start(parse(source, "main.js"));
+         const id = interp.setBreakpoint({ line: 2 });
+
+         const result = execution.run();
+         expect(result).toEqual({
+            done: false,
+            pause: { reason: "breakpoint", breakpointId: id, line: 2, column: 2, source: "main.js" },
+         });
+
+         const frames = interp.getCallFrames();
+         expect(frames.map(({ functionName, line, column }) => [functionName, line, column])).toEqual([
+            ["add", 2, 2],
+            ["<top-level>", 7, 10],
+         ]);
+         expect(frames[0].scopes.map((scope) => scope.type)).toEqual(["block", "function", "global"]);
+         expect(frames[0].scopes[0].variables).toEqual({});
+         expect(frames[0].scopes[1].variables).toMatchObject({ a: 0, b: 0 });
+         expect(frames[1].scopes.slice(0, -1).map((scope) => scope.variables)).toEqual([{}, { i: 0 }]);
+         expect(frames[1].scopes.at(-1)?.variables).toMatchObject({ total: 0 });
+
+         // The breakpoint hits once per call
+         expect(execution.run()).toMatchObject({ done: false, pause: { reason: "breakpoint" } });
+         expect(interp.evaluateInFrame(0, "a + b")).toBe(1);
+         expect(interp.removeBreakpoint(id)).toBe(true);
+         expect(execution.run()).toEqual({ done: true, value: 3 });
+         expect(interp.getCallFrames()).toEqual([]);
+      });
+
+      it("should step into, over and out of calls", () => {
+         const interp = new TestInterpreter();
+         const execution = interp.start(parse(source));
+         interp.setBreakpoint({ line: 7 });
+         const pauses: any[] = [execution.run()];
+         for (const mode of ["into", "over", "out", "over"] as const) {
+            interp.step(mode);
+            pauses.push(execution.run());
+         }
+         expect(pauses.map((result) => `${result.pause.reason}@${result.pause.line}`)).toEqual([
+            "breakpoint@7",
+            "step@2",
+            "step@3",
+            "breakpoint@7",
+            "breakpoint@7",
+         ]);
+
+         interp.removeBreakpoint(1);
+         interp.step("over");
+         expect(execution.run()).toMatchObject({ pause: { reason: "step", line: 9 } });
+         expect(execution.run()).toEqual({ done: true, value: 3 });
+      });
+
+      it("should pause at debugger statements and on request", () => {
+         const interp = new TestInterpreter();
+         const execution = interp.start(parse("let x = 1;\ndebugger;\nx = 2;\nx;"));
+         expect(execution.run()).toMatchObject({ pause: { reason: "debugger", line: 2 } });
+         interp.pause();
+         expect(execution.run()).toMatchObject({ pause: { reason: "pause", line: 3 } });
+         expect(execution.run()).toEqual({ done: true, value: 2 });
+      });
+
+      it("should evaluate code in a paused frame", () => {
+         const interp = new TestInterpreter();
+         const execution = interp.start(
+            parse(`
+               const counter = { count: 1, next() { debugger; return this.count; } };
+               counter.next();
+            `),
+         );
+         execution.run();
+         expect(interp.evaluateInFrame(0, "this.count += 41; var local = 1; local")).toBe(1);
+         expect(() => interp.evaluateInFrame(1, "local")).toThrow(ReferenceError);
+         expect(() => interp.evaluateInFrame(0, "missing")).toThrow(ReferenceError);
+         expect(() => interp.evaluateInFrame(2, "1")).toThrow(RangeError);
+         expect(execution.run()).toEqual({ done: true, value: 42 });
+      });
+
+      it("should not pause code the host runs to completion", () => {
+         const interp = new TestInterpreter({ invoke: (fn: any) => fn() });
+         interp.setBreakpoint({ line: 1 });
+         expect(interp.run("debugger; 1 + 1")).toBe(2);
+
+         // Host callbacks cannot pause, but steps continue once control is back
+         const execution = interp.start(parse("debugger;\ninvoke(() => {\n  return 1;\n});\n3;"));
+         expect(execution.run()).toMatchObject({ pause: { reason: "debugger" } });
+         interp.removeBreakpoint(1);
+         interp.step("into");
+         expect(execution.run()).toMatchObject({ pause: { line: 2 } });
+         interp.step("into");
+         expect(execution.run()).toMatchObject({ pause: { line: 5 } });
+         expect(() => interp.step("into")).not.toThrow();
+         expect(execution.run()).toEqual({ done: true, value: 3 });
+         expect(() => interp.step("over")).toThrow("paused execution");
+      });
+   });
+
+   describe("Hooks", () => {
+      it("should report entered and exited nodes with their values", () => {
+         const events: string[] = [];
+         const interp = new Interpreter(
+            {},
+            {
+               hooks: {
+                  onEnterNode: (node) => events.push(`enter ${node.type}`),
+                  onExitNode: (node, value) => events.push(`exit ${node.type} ${value}`),
+               },
+            },
+         );
+         expect(interp.evaluate(parse("1 + 2;"))).toBe(3);
+         expect(events).toEqual([
+            "enter Program",
+            "enter ExpressionStatement",
+            "enter BinaryExpression",
+            "enter NumericLiteral",
+            "exit NumericLiteral 1",
+            "enter NumericLiteral",
+            "exit NumericLiteral 2",
+            "exit BinaryExpression 3",
+            "exit ExpressionStatement 3",
+            "exit Program 3",
+         ]);
+      });
+
+      it("should balance enter and exit through return, break and throw", () => {
+         let depth = 0;
+         let deepest = 0;
+         const thrown: boolean[] = [];
+         const interp = new Interpreter(
+            {},
+            {
+               hooks: {
+                  onEnterNode: () => {
+                     deepest = Math.max(deepest, ++depth);
+                  },
+                  onExitNode: (_node, _value, threw) => {
+                     depth--;
+                     if (threw) thrown.push(threw);
+                  },
+               },
+            },
+         );
+         const code = `
+            function first(items) {
+               for (var i = 0; i < items.length; i++) {
+                  if (items[i] > 1) return items[i];
+                  if (i > 5) break;
+               }
+            }
+            try { first([1, 2, 3]); throw new Error("x"); } catch (e) {}
+            first([5]);
+         `;
+         expect(interp.evaluate(parse(code))).toBe(5);
+         expect(depth).toBe(0);
+         expect(deepest).toBeGreaterThan(5);
+         // The throw statement and the try block exit with the error
+         expect(thrown).toEqual([true, true]);
+      });
+
+      it("should report interpreted and host calls", () => {
+         const events: string[] = [];
+         const interp = new Interpreter(
+            { double: (x: number) => x * 2 },
+            {
+               hooks: {
+                  onCall: (call) =>
+                     events.push(`call ${call.callee.name}(${call.args}) host=${call.host} new=${call.construct}`),
+                  onReturn: (call, value, threw) => events.push(`return ${call.callee.name} ${value} threw=${threw}`),
+               },
+            },
+         );
+         const code = `
+            function Point(x) { this.x = double(x); }
+            function fail() { throw 7; }
+            try { fail(); } catch (e) {}
+            new Point(2).x;
+         `;
+         expect(interp.evaluate(parse(code))).toBe(4);
+         expect(events).toEqual([
+            "call fail() host=false new=false",
+            "return fail 7 threw=true",
+            "call Point(2) host=false new=true",
+            "call double(2) host=true new=false",
+            "return double 4 threw=false",
+            "return Point undefined threw=false",
+         ]);
+      });
+
+      it("should report interpreted callbacks called by host functions", () => {
+         const calls: string[] = [];
+         const interp = new Interpreter(
+            {},
+            { hooks: { onCall: (call) => calls.push(call.host ? `host ${call.callee.name}` : "callback") } },
+         );
+         expect(interp.evaluate(parse("[1, 2].map(function (x) { return x + 1; });"))).toEqual([2, 3]);
+         expect(calls).toEqual(["host map", "callback", "callback"]);
+      });
+
+      it("should report each thrown value once, at the node that threw it", () => {
+         const thrown: string[] = [];
+         const interp = new Interpreter(
+            {},
+            {
+               hooks: {
+                  onThrow: (error, node) => thrown.push(`${error instanceof Error ? error.name : error} ${node.type}`),
+               },
+            },
+         );
+         const code = `
+            function inner() { throw "first"; }
+            function outer() { inner(); }
+            try { outer(); } catch (e) {
+               try { throw e; } catch (again) {}
+            }
+            try { null.x; } catch (e) {}
+         `;
+         interp.evaluate(parse(code));
+         expect(thrown).toEqual(["first ThrowStatement", "first ThrowStatement", "TypeError MemberExpression"]);
+      });
+
+      it("should report property accesses on host objects only", () => {
+         const accesses: string[] = [];
+         const host = { name: "host", count: 1, nested: { value: 2 } };
+         const interp = new Interpreter(
+            { host },
+            {
+               hooks: {
+                  onHostPropertyAccess: (object, property, kind) =>
+                     accesses.push(`${kind} ${object === host ? "host" : "nested"}.${String(property)}`),
+               },
+            },
+         );
+         const code = `
+            var own = { a: 1, list: [1, 2] };
+            own.a = own.list.length;
+            class Box { constructor() { this.v = 1; } get() { return this.v; } }
+            new Box().get();
+            host.count++;
+            host.extra = own.a;
+            var { name } = host;
+            host.nested.value;
+         `;
+         interp.evaluate(parse(code));
+         expect(accesses).toEqual([
+            "get host.count",
+            "set host.count",
+            "set host.extra",
+            "get host.name",
+            "get host.nested",
+            "get nested.value",
+         ]);
+         expect(host).toMatchObject({ count: 2, extra: 2 });
+      });
+   });
+
+   describe("Profiling", () => {
+      const fib = [
+         "function fib(n) {",
+         "  if (n < 2) return n;",
+         "  return fib(n - 1) + fib(n - 2);",
+         "}",
+         "function main() {",
+         "  return fib(10);",
+         "}",
+         "main();",
+      ].join("\n");
+
+      it("should attribute operations to functions and lines", () => {
+         const interp = new Interpreter();
+         interp.startProfiling();
+         expect(interp.evaluate(parse(fib, "fib.js"))).toBe(55);
+         const profile = interp.stopProfiling();
+
+         expect(profile.functions.map((fn) => [fn.functionName, fn.calls, fn.line, fn.source])).toEqual([
+            ["fib", 177, 1, "fib.js"],
+            ["<top-level>", 0, undefined, undefined],
+            ["main", 1, 5, "fib.js"],
+         ]);
+         const [fibFn, topLevel, mainFn] = profile.functions;
+         // Recursive calls count once in the total
+         expect(fibFn.totalOps).toBe(fibFn.selfOps);
+         expect(mainFn.totalOps).toBe(mainFn.selfOps + fibFn.totalOps);
+         expect(topLevel.totalOps).toBe(profile.totalOps);
+         expect(profile.totalOps).toBe(interp.getOpsUsage().total);
+
+         const lines = profile.lines.map((line) => line.line);
+         expect(lines.slice(0, 2).sort()).toEqual([2, 3]);
+         expect(profile.lines.reduce((sum, line) => sum + line.ops, 0)).toBe(profile.totalOps);
+      });
+
+      it("should track time spent in host functions separately", () => {
+         const wait = (ms: number) => {
+            const end = performance.now() + ms;
+            while (performance.now() < end) {
+               // busy wait
+            }
+         };
+         const interp = new Interpreter({ wait });
+         interp.startProfiling();
+         interp.evaluate(parse("function slow() { wait(20); }\nslow();\n[1, 2].map(function (x) { return x; });"));
+         const profile = interp.stopProfiling();
+
+         expect(profile.hostFunctions.map((fn) => [fn.functionName, fn.calls])).toEqual([
+            ["wait", 1],
+            ["map", 1],
+         ]);
+         expect(profile.hostFunctions[0].time).toBeGreaterThanOrEqual(19);
+         const slow = profile.functions.find((fn) => fn.functionName === "slow");
+         expect(slow?.hostTime).toBeGreaterThanOrEqual(19);
+         expect(slow?.selfTime).toBeLessThan(slow?.hostTime as number);
+         expect(slow?.totalTime).toBeGreaterThanOrEqual(slow?.hostTime as number);
+         expect(profile.hostTime).toBeGreaterThanOrEqual(19);
+         expect(profile.totalTime).toBeGreaterThanOrEqual(profile.hostTime);
+      });
+
+      it("should export the call tree as a .cpuprofile", () => {
+         const interp = new Interpreter();
+         interp.startProfiling({ sampleInterval: 10 });
+         interp.evaluate(parse(fib, "fib.js"));
+         const cpuProfile = interp.stopProfiling().toCpuProfile();
+
+         const byId = new Map(cpuProfile.nodes.map((node) => [node.id, node]));
+         const names = (id: number): string[] => {
+            const node = byId.get(id);
+            return [node?.callFrame.functionName ?? "", ...(node?.children ?? []).flatMap(names)];
+         };
+         expect(names(cpuProfile.nodes[0].id).slice(0, 5)).toEqual(["(root)", "<top-level>", "main", "fib", "fib"]);
+         const main = cpuProfile.nodes.find((node) => node.callFrame.functionName === "main");
+         expect(main?.callFrame).toEqual({
+            functionName: "main",
+            scriptId: "0",
+            url: "fib.js",
+            lineNumber: 4,
+            columnNumber: 0,
+         });
+
+         expect(cpuProfile.samples.length).toBe(cpuProfile.timeDeltas.length);
+         expect(cpuProfile.samples.every((id) => byId.has(id))).toBe(true);
+         expect(cpuProfile.timeDeltas.every((delta) => delta >= 0)).toBe(true);
+         const lastSample = cpuProfile.startTime + cpuProfile.timeDeltas.reduce((sum, delta) => sum + delta, 0);
+         expect(lastSample).toBeLessThanOrEqual(cpuProfile.endTime);
+         const hits = cpuProfile.nodes.reduce((sum, node) => sum + node.hitCount, 0);
+         expect(hits).toBe(cpuProfile.samples.length);
+         const fibTicks = cpuProfile.nodes
+            .filter((node) => node.callFrame.functionName === "fib")
+            .flatMap((node) => node.positionTicks ?? []);
+         expect(fibTicks.every((tick) => tick.line === 2 || tick.line === 3)).toBe(true);
+      });
+
+      it("should profile deep recursion", () => {
+         const interp = new Interpreter();
+         interp.startProfiling();
+         interp.evaluate(parse("function down(n) { return n === 0 ? 0 : 1 + down(n - 1); }\ndown(8000);"));
+         const profile = interp.stopProfiling();
+
+         const down = profile.functions.find((fn) => fn.functionName === "down");
+         expect(down?.calls).toBe(8001);
+         expect(down?.totalOps).toBe(down?.selfOps);
+         expect(profile.toCpuProfile().nodes.length).toBe(8004);
+      });
+
+      it("should keep attributing suspended executions to their functions", () => {
+         const interp = new Interpreter({}, { parse });
+         interp.startProfiling();
+         const execution = interp.start(parse("function spin() {\n  for (var i = 0; i < 200; i++) {}\n}\nspin();"));
+         let result = execution.run(50);
+         let slices = 1;
+         while (!result.done) {
+            interp.evaluate(parse("1 + 1;"));
+            result = execution.run(50);
+            slices++;
+         }
+         const profile = interp.stopProfiling();
+
+         expect(slices).toBeGreaterThan(5);
+         const spin = profile.functions.find((fn) => fn.functionName === "spin");
+         expect(spin?.calls).toBe(1);
+         expect(spin?.selfOps).toBeGreaterThan(800);
+         expect(profile.functions.map((fn) => fn.functionName).sort()).toEqual(["<top-level>", "spin"]);
+      });
+
+      it("should reject unbalanced start and stop calls", () => {
+         const interp = new Interpreter();
+         expect(() => interp.stopProfiling()).toThrow("Profiling not started");
+         interp.startProfiling();
+         expect(() => interp.startProfiling()).toThrow("Profiling already started");
+         expect(interp.stopProfiling().totalOps).toBe(0);
+      });
+   });
 });
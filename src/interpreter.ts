@@ -1,4 +1,24 @@
 import type * as t from "@babel/types";
+import type { CostModel } from "./cost-model.js";
+import {
+   ExecutionAbortedError,
+   ExecutionInterruptedError,
+   ExecutionTimeoutError,
+   MemoryLimitError,
+   ModuleAccessError,
+} from "./errors.js";
+import {
+   arraySize,
+   CALL_FRAME_SIZE,
+   ELEMENT_SIZE,
+   estimateHostAllocation,
+   estimateSize,
+   FUNCTION_SIZE,
+   OBJECT_SIZE,
+   PROPERTY_SIZE,
+   stringSize,
+} from "./memory.js";
+import { type Profile, type ProfileNode, Profiler, type ProfilingOptions } from "./profiler.js";
 
 /**
  * Return value for control flow (return, break, continue)
@@ -15,24 +35,581 @@ interface Scope {
    parent: Scope | null;
    vars: Record<string, any>;
    type: "function" | "block";
+   /** Names declared with const */
+   constants?: Set<string>;
 }
 
 /**
- * Interpreted function representation
+ * How a pattern binds names: as a declaration of some kind, a parameter, or an assignment
+ */
+type BindingKind = "var" | "let" | "const" | "param" | "assign";
+
+/**
+ * Value of let/const bindings before their declaration ran (temporal dead zone)
+ */
+const UNINITIALIZED = Symbol("uninitialized");
+
+/**
+ * Result of an optional chain that hit null or undefined at an optional link
+ */
+const SHORT_CIRCUIT = Symbol("short-circuit");
+
+/**
+ * Internal bindings of function scopes. Like `this`, they are stored in the scope's vars,
+ * under names that cannot clash with identifiers.
+ */
+const NEW_TARGET = "new.target";
+const HOME_OBJECT = "%HomeObject";
+const ACTIVE_FUNCTION = "%ActiveFunction";
+const MODULE = "%Module";
+
+/**
+ * Module scope binding of `export default <expression>` and anonymous default declarations
+ */
+const DEFAULT_EXPORT = "*default*";
+
+/**
+ * Scope bindings the interpreter keeps for itself, hidden from debugger scopes
+ */
+const INTERNAL_BINDINGS = new Set([NEW_TARGET, HOME_OBJECT, ACTIVE_FUNCTION, MODULE, DEFAULT_EXPORT]);
+
+/**
+ * Body of class constructors not defined in the class body
+ */
+const EMPTY_BODY: t.BlockStatement = { type: "BlockStatement", body: [], directives: [] };
+
+/**
+ * Program of host-defined modules, whose exports come from host values
+ */
+const EMPTY_PROGRAM: t.Program = { type: "Program", body: [], directives: [], sourceType: "module" };
+
+/**
+ * Maximum nesting of sandboxed code run to completion from host code. Host functions that
+ * call back into sandboxed code (map, sort, getters) nest on the host's stack, which holds
+ * a few hundred of these levels, far fewer than maxCallDepth allows interpreted calls.
+ */
+const MAX_NESTED_RUNS = 256;
+
+/**
+ * Tallest syntax tree evaluated directly on the host stack rather than in frames
+ */
+const MAX_INLINE_HEIGHT = 32;
+
+/**
+ * Interpreted function representation, linked from the host function that stands in for it
  */
 interface InterpretedFunction {
-   __interpreted: true;
-   params: t.Identifier[];
+   /** Function node, or the class node of a class constructor */
+   node: FunctionNode | t.Class;
+   params: FunctionNode["params"];
    body: t.BlockStatement | t.Expression;
    closure: Scope;
    name?: string;
+   generator?: boolean;
+   async?: boolean;
+   /** Arrow functions take this and arguments from their closure */
+   arrow: boolean;
+   constructable: boolean;
+   /** Object whose prototype `super` property lookups start from */
+   homeObject?: object;
+   bound?: { target: HostFunction; thisArg: any; args: any[] };
+   /** Set on class constructors */
+   classInfo?: ClassInfo;
+}
+
+type FunctionNode =
+   | t.FunctionDeclaration
+   | t.FunctionExpression
+   | t.ArrowFunctionExpression
+   | t.ObjectMethod
+   | t.ClassMethod;
+
+/**
+ * Class constructor details
+ */
+interface ClassInfo {
+   derived: boolean;
+   /** No constructor in the class body: derived classes pass their arguments to super() */
+   implicitConstructor: boolean;
+   /** Instance fields, defined on each instance before the constructor body runs */
+   fields: { key: PropertyKey; value: t.Expression | null | undefined }[];
+   scope: Scope;
+}
+
+type HostFunction = (...args: any[]) => any;
+
+/**
+ * Value of a link in an optional chain, with the object it was read from for method calls
+ */
+interface ChainReference {
+   value: any;
+   thisValue?: any;
+}
+
+type FunctionMethod = "call" | "apply" | "bind" | "toString";
+
+/**
+ * Suspended evaluation of a single AST node. Frames yield child frames to the driver
+ * instead of recursing, so interpreter frames live on an explicit heap-allocated stack.
+ */
+type Frame = Generator<any, any, any>;
+
+/**
+ * Requests from a frame to the driver that are not child evaluations
+ */
+type Signal =
+   | { signal: "value"; value: any }
+   | { signal: "yield"; value: any }
+   | { signal: "await"; value: any }
+   | { signal: "resume"; generator: GeneratorState; mode: GeneratorResumeMode; value: any }
+   | { signal: "pause"; pause: PauseInfo; scope: Scope };
+
+type GeneratorResumeMode = "next" | "throw" | "return";
+
+/**
+ * Interpreted generator object or async function state. While suspended, its frames are
+ * parked here; while executing, the state sits on the stack as a boundary below them.
+ */
+interface GeneratorState {
+   frames: Frame[];
+   status: "suspendedStart" | "suspendedYield" | "executing" | "completed";
+}
+
+/**
+ * Explicit frame stack plus the completion pending delivery to its top frame
+ */
+interface Machine {
+   stack: (Frame | GeneratorState)[];
+   throwing: boolean;
+   value: any;
+   /** Whether the debugger can pause it: only executions from start() return to the host mid-run */
+   pausable?: boolean;
+}
+
+/**
+ * Instance of an ES module, created once per resolved URL
+ */
+interface ModuleRecord {
+   url: string;
+   program: t.Program;
+   scope: Scope;
+   meta: object;
+   /** Specifiers of imported and re-exported modules, in source order */
+   requests: string[];
+   /** Modules the requests resolved to, filled in while the graph loads */
+   requested: Map<string, ModuleRecord>;
+   /** Export name → local binding name */
+   localExports: Map<string, string>;
+   /** Export name → binding of another module (`export { a } from`), or "*" for its namespace */
+   indirectExports: Map<string, { specifier: string; importName: string }>;
+   /** Specifiers of `export * from` */
+   starExports: string[];
+   linked: boolean;
+   namespace?: object;
+   evaluation?: Promise<void>;
+}
+
+/**
+ * Module registered with defineModule()
+ */
+interface HostModule {
+   record: ModuleRecord;
+   exports: Record<string, any>;
+   allow?: HostModuleOptions["allow"];
+}
+
+/**
+ * `module` object of a CommonJS module
+ */
+interface CommonJSModule {
+   id: string | undefined;
+   exports: any;
+   loaded: boolean;
+}
+
+/**
+ * Where an export's value lives: a binding in a module scope, or a module namespace
+ */
+type ResolvedExport = { module: ModuleRecord; name: string } | { namespace: ModuleRecord };
+
+/**
+ * Settles the promise returned by an async function
+ */
+interface AsyncCapability {
+   resolve: (value: any) => void;
+   reject: (reason: any) => void;
+}
+
+/**
+ * Queued continuation of an async body, with the capability of the promise it settles
+ */
+interface PromiseJob {
+   frame: Frame;
+   capability: AsyncCapability;
+}
+
+/**
+ * Per-entry budget saved across the slices of a paused execution
+ */
+interface EntryBudget {
+   opCount: number;
+   deadline: number;
+   allocated: number;
+   callStack: StackEntry[];
+   location: t.SourceLocation | null;
+   scope: Scope | null;
+   /** Call tree node the entry was suspended at, while profiling */
+   profileNode?: ProfileNode;
+}
+
+/**
+ * Interpreted call in progress
+ */
+interface StackEntry {
+   functionName: string;
+   /** Location of the call in the caller, if known */
+   callLocation: t.SourceLocation | null;
+   /** Scope the caller made the call in */
+   callScope: Scope | null;
+}
+
+/**
+ * Frame of a paused execution
+ */
+interface PausedFrame {
+   functionName: string;
+   location: t.SourceLocation | null;
+   scope: Scope;
+}
+
+/**
+ * Execution stopped by the debugger, with its frames innermost first
+ */
+interface PausedState {
+   machine: Machine;
+   frames: PausedFrame[];
+   /** Interpreted call depth at the pause, which steps are relative to */
+   depth: number;
+}
+
+/**
+ * Frame of an interpreted stack trace, as listed in the `callStack` of errors
+ */
+export interface CallSite {
+   /** Name of the running function, or "<top-level>" for program code */
+   functionName: string;
+   /** Line being evaluated in the frame (1-based), if the AST has locations */
+   line?: number;
+   /** Column being evaluated in the frame (0-based, like Babel locations) */
+   column?: number;
+   /** Source name from the AST locations (`filename`), if the parser recorded one */
+   source?: string;
+}
+
+/**
+ * Stack trace entry for the frame running at `location`
+ */
+function callSite(functionName: string, location: t.SourceLocation | null): CallSite {
+   if (!location) return { functionName };
+   const site: CallSite = { functionName, line: location.start.line, column: location.start.column };
+   if (location.filename) site.source = location.filename;
+   return site;
+}
+
+/**
+ * Source position where breakpoints pause: a line, optionally a column, in the source whose
+ * AST locations have `filename` equal to `source` (any source if omitted)
+ */
+export interface BreakpointLocation {
+   line: number;
+   column?: number;
+   source?: string;
+}
+
+/**
+ * Why and where an execution paused
+ */
+export interface PauseInfo {
+   /**
+    * A breakpoint matched, a `debugger` statement ran, a step completed, or pause() was called
+    */
+   reason: "breakpoint" | "debugger" | "step" | "pause";
+   /** Id of the matching breakpoint, for reason "breakpoint" */
+   breakpointId?: number;
+   line?: number;
+   column?: number;
+   source?: string;
+}
+
+/**
+ * How far step() runs: to the next statement, the next statement of the paused function
+ * (stepping over calls), or the next statement after the paused function returns
+ */
+export type StepMode = "into" | "over" | "out";
+
+/**
+ * Frame of a paused execution, innermost first, with its scope chain
+ */
+export interface DebugFrame extends CallSite {
+   /** Scopes from the innermost block to the global scope */
+   scopes: DebugScope[];
+}
+
+/**
+ * Bindings of one scope in a paused frame's scope chain
+ */
+export interface DebugScope {
+   type: "block" | "function" | "module" | "global";
+   /** Binding values; let/const not yet initialized are left out */
+   variables: Record<string, any>;
+}
+
+/**
+ * Statements the debugger can pause at
+ */
+const PAUSE_TYPES = new Set([
+   "ExpressionStatement",
+   "VariableDeclaration",
+   "ClassDeclaration",
+   "ReturnStatement",
+   "IfStatement",
+   "SwitchStatement",
+   "ThrowStatement",
+   "TryStatement",
+   "BreakStatement",
+   "ContinueStatement",
+   "ForStatement",
+   "ForInStatement",
+   "ForOfStatement",
+   "WhileStatement",
+   "DoWhileStatement",
+]);
+
+/**
+ * Statements a labeled continue can target
+ */
+const LOOP_TYPES = new Set(["ForStatement", "ForInStatement", "ForOfStatement", "WhileStatement", "DoWhileStatement"]);
+
+/**
+ * Statements evalInline() runs. They are or contain statements the debugger pauses at, so they
+ * get frames while debugging.
+ */
+const INLINE_STATEMENTS = new Set(["ExpressionStatement", "ReturnStatement", "IfStatement", "BlockStatement"]);
+
+/**
+ * Operation counters for the lifetime and per-entry budgets
+ */
+export interface OpsUsage {
+   /** Operations spent over the interpreter's lifetime */
+   total: number;
+   /** Operations left in the lifetime budget (Infinity if `maxTotalOps` is not set) */
+   remaining: number;
+   /** Operations spent by the current, or most recent, host→sandbox entry */
+   entry: number;
+}
+
+/**
+ * Result of running an execution: either the completion value or a paused marker
+ */
+export type ExecutionResult = { done: true; value: any } | { done: false; pause?: PauseInfo };
+
+/**
+ * Program evaluation that can be run in slices and resumed later
+ */
+export interface Execution {
+   /** True once the program completed or threw */
+   readonly done: boolean;
+   /**
+    * Run until the program completes, `sliceOps` operations have been spent, or the debugger
+    * pauses it (the result then carries `pause`). Errors thrown by the program propagate to the caller.
+    */
+   run(sliceOps?: number): ExecutionResult;
+}
+
+/**
+ * %IteratorPrototype% - gives interpreted generator objects [Symbol.iterator]
+ */
+const IteratorPrototype = Object.getPrototypeOf(Object.getPrototypeOf(function* () {}).prototype);
+
+const nativeCall = Function.prototype.call;
+const nativeToString = Function.prototype.toString;
+const nativeThen = Promise.prototype.then;
+
+/**
+ * Node types that start a new function body, where `await` no longer refers to the program.
+ * Coverage counts calls of the same node types.
+ */
+export const FUNCTION_TYPES = new Set([
+   "FunctionDeclaration",
+   "FunctionExpression",
+   "ArrowFunctionExpression",
+   "ObjectMethod",
+   "ClassMethod",
+   "ClassPrivateMethod",
+]);
+
+/**
+ * Whether a program awaits outside of any function, making its evaluation asynchronous
+ */
+function hasTopLevelAwait(node: any): boolean {
+   if (node === null || typeof node !== "object") return false;
+   if (Array.isArray(node)) return node.some(hasTopLevelAwait);
+   if (node.type === "AwaitExpression" || (node.type === "ForOfStatement" && node.await)) return true;
+   if (FUNCTION_TYPES.has(node.type)) return false;
+   for (const key in node) {
+      if (key !== "loc" && key !== "extra" && !key.endsWith("Comments") && hasTopLevelAwait(node[key])) return true;
+   }
+   return false;
+}
+
+/**
+ * Host hooks that locate and load ES modules
+ */
+export interface ModuleLoader {
+   /**
+    * Resolve an import specifier to the URL that identifies the module. `referrer` is the
+    * URL of the importing module, or undefined for evaluateModule() and imports from scripts.
+    */
+   resolve(specifier: string, referrer: string | undefined): string | Promise<string>;
+   /**
+    * Load the module at a resolved URL as an AST parsed with `sourceType: "module"`
+    * (e.g. with parseModule). Each URL is loaded once per interpreter.
+    */
+   load(url: string): t.Program | Promise<t.Program>;
+}
+
+/**
+ * Options for a host-defined module
+ */
+export interface HostModuleOptions {
+   /**
+    * Decide whether a module may import this one. `importer` is the URL of the importing
+    * module, or undefined for scripts and evaluateModule(). Rejected imports fail with a
+    * ModuleAccessError.
+    */
+   allow?: (importer: string | undefined) => boolean;
+}
+
+/**
+ * Host hooks that locate and load CommonJS modules for require()
+ */
+export interface CommonJSLoader {
+   /**
+    * Resolve a require() specifier to the id that identifies the module. `referrer` is the
+    * id of the requiring module, or undefined for modules evaluated without an id.
+    */
+   resolve(specifier: string, referrer: string | undefined): string;
+   /**
+    * Load the module with a resolved id as a script AST (e.g. with parse).
+    * Each id is loaded once per interpreter.
+    */
+   load(id: string): t.Program;
+}
+
+/**
+ * A function call observed by the onCall and onReturn hooks
+ */
+export interface CallEvent {
+   /** Called function; interpreted functions appear as the host functions wrapping them */
+   callee: (...args: any[]) => any;
+   /** Receiver of the call, undefined for plain calls and `new` */
+   thisArg: any;
+   args: any[];
+   /** Whether the callee is a host function rather than interpreted code */
+   host: boolean;
+   /** Whether the call constructs an object with `new` or `super()` */
+   construct: boolean;
+}
+
+/**
+ * Callbacks observing execution, for logging, auditing and teaching tools. Hooks run
+ * synchronously while sandboxed code runs, and errors they throw propagate into it like
+ * errors of host functions. Interpreters without hooks skip all tracing work.
+ */
+export interface InterpreterHooks {
+   /** Called before an AST node is evaluated */
+   onEnterNode?: (node: t.Node) => void;
+   /**
+    * Called after an AST node was evaluated with its value, or with the thrown value when
+    * `threw` is set. Nodes of suspended generators and async functions exit when they resume.
+    */
+   onExitNode?: (node: t.Node, value: any, threw: boolean) => void;
+   /** Called before an interpreted or host function runs */
+   onCall?: (call: CallEvent) => void;
+   /** Called when a call of onCall returns, or throws when `threw` is set */
+   onReturn?: (call: CallEvent, value: any, threw: boolean) => void;
+   /**
+    * Called once when a value is thrown: by a throw statement, or by the innermost node
+    * whose evaluation failed. A value rethrown from a catch block is reported again.
+    */
+   onThrow?: (error: any, node: t.Node) => void;
+   /**
+    * Called before sandboxed code reads or assigns a property of a host object: any object
+    * or function it did not create itself with literals, functions, classes or `new`
+    */
+   onHostPropertyAccess?: (object: object, property: PropertyKey, kind: "get" | "set") => void;
 }
 
 /**
  * Complete ES5 JavaScript interpreter with sandboxing support
  */
 export interface InterpreterOptions {
+   /**
+    * Operation budget for each host→sandbox entry: an evaluate() call, an execution started
+    * with start(), or an interpreted callback invoked by the host (event handlers, promise
+    * reactions, timers). Exceeding it throws an ExecutionTimeoutError.
+    */
    maxOps?: number;
+   /**
+    * Operation budget over the interpreter's lifetime, shared by all entries.
+    * Exceeding it throws an ExecutionTimeoutError until more operations are granted with refillOps().
+    */
+   maxTotalOps?: number;
+   /**
+    * Operation costs charged against `maxOps`/`maxTotalOps`, per node type and per
+    * host function call. Defaults to one operation per evaluated node.
+    */
+   costModel?: CostModel;
+   /**
+    * Estimated bytes each host→sandbox entry may allocate: objects, arrays, strings,
+    * closures and call frames created by sandboxed code, plus arrays and strings returned
+    * by host functions. Garbage collection is not observed, so this bounds the total
+    * allocated per entry rather than live memory. Exceeding it throws a MemoryLimitError.
+    */
+   maxMemory?: number;
+   /**
+    * Maximum depth of nested interpreted calls (default: 10000). Exceeding it throws a
+    * RangeError that sandboxed code can catch, with the interpreted call stack attached
+    * as `callStack` like every error thrown in sandboxed code. Recursion through host
+    * functions, like a map() callback mapping again, is limited to 256 nested callbacks.
+    */
+   maxCallDepth?: number;
+   /**
+    * Wall-clock limit in milliseconds for each host→sandbox entry.
+    * Exceeding it throws an ExecutionTimeoutError.
+    */
+   timeoutMs?: number;
+   /**
+    * Cancels any running evaluation when aborted, throwing an ExecutionAbortedError
+    */
+   signal?: AbortSignal;
+   /**
+    * Run queued promise jobs (async function continuations) as soon as the awaited value
+    * settles (default: true). When false, jobs wait in the queue until the host calls runJobs().
+    */
+   autoRunJobs?: boolean;
+   /**
+    * Resolves and loads ES modules for evaluateModule(), import declarations and import()
+    */
+   moduleLoader?: ModuleLoader;
+   /**
+    * Resolves and loads the modules that code run with evaluateCommonJS() requires
+    */
+   commonJSLoader?: CommonJSLoader;
+   /**
+    * Callbacks observing evaluated nodes, calls, thrown errors and host property accesses
+    */
+   hooks?: InterpreterHooks;
    /**
     * Optional parser function for eval() support.
     * If not provided, eval() will throw an error.
@@ -41,15 +618,106 @@ export interface InterpreterOptions {
    parse?: (code: string) => t.Program;
 }
 
+/**
+ * Options for time-sliced evaluation
+ */
+export interface EvaluateAsyncOptions {
+   /** Operations to run before yielding to the host event loop (default: 10000) */
+   sliceOps?: number;
+   /** Stops the evaluation at the next slice boundary, rejecting with an ExecutionAbortedError */
+   signal?: AbortSignal;
+}
+
+/**
+ * Yield to the host event loop. MessageChannel avoids the clamping of nested setTimeout calls.
+ */
+function yieldToEventLoop(): Promise<void> {
+   if (typeof MessageChannel !== "undefined") {
+      return new Promise((resolve) => {
+         const channel = new MessageChannel();
+         channel.port1.onmessage = () => {
+            channel.port1.close();
+            resolve();
+         };
+         channel.port2.postMessage(undefined);
+      });
+   }
+   return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
 export class Interpreter {
    private globalScope: Scope;
    private opCount = 0;
    private maxOps: number;
+   private totalOps = 0;
+   private maxTotalOps: number;
+   private entryDepth = 0;
+   private allocated = 0;
+   private maxMemory: number;
+   private callStack: StackEntry[] = [];
+   private location: t.SourceLocation | null = null;
+   private currentScope: Scope | null = null;
+   private breakpoints = new Map<number, BreakpointLocation>();
+   private nextBreakpointId = 1;
+   private stepping?: { mode: StepMode; depth: number };
+   private pauseRequested = false;
+   private paused?: PausedState;
+   private debugging = false;
+   private annotatedErrors = new WeakSet<Error>();
+   private hooks: InterpreterHooks;
+   private traceNodes: boolean;
+   private traceCalls: boolean;
+   private reportedThrow?: { error: any };
+   private sandboxObjects?: WeakSet<object>;
+   private profiler?: Profiler;
+   private maxCallDepth: number;
+   /** Runs to completion on the host stack, nested through host functions calling back */
+   private nestedRuns = 0;
+   private nodeCosts?: Partial<Record<string, number>>;
+   private defaultNodeCost: number;
+   private hostCallCost?: CostModel["hostCall"];
+   private timeoutMs: number;
+   private deadline = Infinity;
+   private pollCountdown = 0;
+   private signal?: AbortSignal;
    private parse?: (code: string) => t.Program;
+   private jobs: PromiseJob[] = [];
+   private autoRunJobs: boolean;
+   private runningJobs = false;
+   private moduleLoader?: ModuleLoader;
+   private modules = new Map<string, Promise<ModuleRecord>>();
+   private hostModules = new Map<string, HostModule>();
+   private commonJSLoader?: CommonJSLoader;
+   private commonJSModules = new Map<string, CommonJSModule>();
+   private functions = new WeakMap<HostFunction, InterpretedFunction>();
+   private functionSources = new WeakMap<t.Node, string>();
+   private templateObjects = new WeakMap<t.TemplateLiteral, TemplateStringsArray>();
+   private inlineHeights = new WeakMap<t.Node, number>();
+   private loopLabels = new WeakMap<t.Node, Set<string>>();
+   private functionMethods = new Map<HostFunction, FunctionMethod>();
+   private functionPrototype = this.createFunctionPrototype();
+   private generators = new WeakMap<object, GeneratorState>();
+   private generatorMethods = new Map<(...args: any[]) => any, GeneratorResumeMode>();
+   private generatorPrototype = this.createGeneratorPrototype();
 
    constructor(globalEnv: Record<string, any> = {}, options: InterpreterOptions = {}) {
       this.maxOps = options.maxOps || Infinity;
+      this.maxTotalOps = options.maxTotalOps ?? Infinity;
+      this.maxMemory = options.maxMemory ?? Infinity;
+      this.maxCallDepth = options.maxCallDepth ?? 10000;
+      this.nodeCosts = options.costModel ? (options.costModel.nodes ?? {}) : undefined;
+      this.defaultNodeCost = options.costModel?.defaultNodeCost ?? 1;
+      this.hostCallCost = options.costModel?.hostCall;
+      this.timeoutMs = options.timeoutMs ?? Infinity;
+      this.signal = options.signal;
       this.parse = options.parse;
+      this.autoRunJobs = options.autoRunJobs ?? true;
+      this.moduleLoader = options.moduleLoader;
+      this.hooks = options.hooks ?? {};
+      this.traceNodes = !!(this.hooks.onEnterNode || this.hooks.onExitNode || this.hooks.onThrow);
+      this.traceCalls = !!(this.hooks.onCall || this.hooks.onReturn);
+      if (this.hooks.onHostPropertyAccess) this.sandboxObjects = new WeakSet();
+      this.commonJSLoader = options.commonJSLoader;
 
       this.globalScope = {
          parent: null,
@@ -100,7 +768,8 @@ export class Interpreter {
                      "eval() is not supported without a parser. Pass parse option to Interpreter constructor.",
                   );
                }
-               return this.evaluate(this.parse(code));
+               // Runs within the caller's operation and time budget
+               return this.evalScript(this.parse(code));
             },
 
             // User-provided globals (override defaults)
@@ -111,122 +780,1721 @@ export class Interpreter {
    }
 
    /**
-    * Evaluate a pre-parsed AST
+    * Evaluate a pre-parsed AST. Programs using top-level await return a promise
+    * of their completion value.
     */
    evaluate(ast: t.Program): any {
-      this.opCount = 0;
-
-      // Hoist function declarations and var declarations
-      this.hoistDeclarations(ast.body, this.globalScope);
+      return this.enter(() => this.evalScript(ast));
+   }
 
-      return this.evalNode(ast, this.globalScope);
+   /**
+    * Number of promise jobs waiting to run
+    */
+   get pendingJobs(): number {
+      return this.jobs.length;
    }
 
    /**
-    * Hoist function and var declarations to the top of their scope
+    * Run queued promise jobs in order, including the jobs they queue, until the queue is
+    * empty or `maxJobs` jobs have run. Each job is a host→sandbox entry with its own budget.
+    * An interrupted job throws from runJobs() and leaves its async function's promise pending,
+    * except after an abort: sandboxed code can no longer run then, so the interrupted job and
+    * every queued job reject their promises. Returns the number of jobs still pending.
     */
-   private hoistDeclarations(statements: t.Statement[], scope: Scope): void {
-      // First pass: hoist var declarations and function names
-      for (const stmt of statements) {
-         if (stmt.type === "FunctionDeclaration" && stmt.id) {
-            // Hoist function declaration - create the function immediately
-            scope.vars[stmt.id.name] = this.createFunction(stmt, scope);
-         } else if (stmt.type === "VariableDeclaration" && stmt.kind === "var") {
-            // Hoist var declarations (initialized to undefined)
-            for (const decl of stmt.declarations) {
-               if (decl.id.type === "Identifier") {
-                  scope.vars[decl.id.name] = undefined;
-               }
+   runJobs(maxJobs = Infinity): number {
+      if (this.entryDepth > 0 || this.runningJobs) {
+         throw new Error("runJobs() cannot be called while sandboxed code is running");
+      }
+      this.runningJobs = true;
+      try {
+         for (let run = 0; run < maxJobs && this.jobs.length > 0; run++) {
+            const job = this.jobs.shift() as PromiseJob;
+            try {
+               this.runEntry(job.frame);
+            } catch (e) {
+               if (!this.signal?.aborted) throw e;
+               job.capability.reject(e);
+               for (const pending of this.jobs.splice(0)) pending.capability.reject(e);
             }
          }
+      } finally {
+         this.runningJobs = false;
       }
+      return this.jobs.length;
    }
 
    /**
-    * Create a new scope
+    * Operations spent and left in the lifetime and per-entry budgets
     */
-   private createScope(parent: Scope | null, type: "function" | "block" = "block"): Scope {
-      return { parent, vars: {}, type };
+   getOpsUsage(): OpsUsage {
+      return {
+         total: this.totalOps,
+         remaining: Math.max(0, this.maxTotalOps - this.totalOps),
+         entry: this.opCount,
+      };
    }
 
    /**
-    * Get variable from scope chain
+    * Start recording the operations and time spent in interpreted functions, source lines
+    * and host functions, until stopProfiling()
     */
-   private getVar(scope: Scope | null, name: string): any {
-      if (!scope) {
-         throw new ReferenceError(`${name} is not defined`);
+   startProfiling(options: ProfilingOptions = {}): void {
+      if (this.profiler) {
+         throw new Error("Profiling already started");
+      }
+      this.profiler = new Profiler(() => this.location, options);
+      // Started by sandboxed code through a host function: the running entry is sampled from here
+      if (this.entryDepth > 0) this.profiler.resume(undefined);
+   }
+
+   /**
+    * Stop profiling and return the profile recorded since startProfiling()
+    */
+   stopProfiling(): Profile {
+      if (!this.profiler) {
+         throw new Error("Profiling not started");
+      }
+      const profile = this.profiler.stop();
+      this.profiler = undefined;
+      return profile;
+   }
+
+   /**
+    * Grant additional operations to the lifetime budget
+    */
+   refillOps(ops: number): void {
+      this.maxTotalOps += ops;
+   }
+
+   /**
+    * Run a host→sandbox entry. The outermost entry starts a fresh per-entry operation budget
+    * and deadline (or resumes a saved one); entries nested inside it, like callbacks a host
+    * function invokes synchronously, are charged to the outer entry.
+    */
+   private enter<T>(run: () => T, budget?: EntryBudget): T {
+      const outermost = this.entryDepth === 0;
+      if (outermost) {
+         this.opCount = budget ? budget.opCount : 0;
+         this.deadline = budget ? budget.deadline : Date.now() + this.timeoutMs;
+         this.allocated = budget ? budget.allocated : 0;
+         this.callStack = budget ? budget.callStack : [];
+         this.location = budget ? budget.location : null;
+         this.currentScope = budget ? budget.scope : null;
+         this.reportedThrow = undefined;
+         this.profiler?.resume(budget?.profileNode);
+      }
+
+      this.entryDepth++;
+      try {
+         this.checkInterrupts();
+         return run();
+      } finally {
+         this.entryDepth--;
+         if (outermost) {
+            if (budget) {
+               budget.opCount = this.opCount;
+               budget.allocated = this.allocated;
+               budget.callStack = this.callStack;
+               budget.location = this.location;
+               budget.scope = this.currentScope;
+            }
+            const profileNode = this.profiler?.suspend();
+            if (budget) budget.profileNode = profileNode;
+            this.deadline = Infinity;
+         }
+      }
+   }
+
+   /**
+    * Hoist and run a program in the global scope
+    */
+   private evalScript(ast: t.Program): any {
+      this.registerSources(ast);
+      // Hoist function declarations and var declarations
+      this.hoistDeclarations(ast.body, this.globalScope);
+
+      return this.runToCompletion(this.programFrame(ast));
+   }
+
+   /**
+    * Frame evaluating a hoisted program. Programs with top-level await run as an async body.
+    */
+   private programFrame(ast: t.Program): Frame {
+      const frame = this.evalNode(ast, this.globalScope);
+      return hasTopLevelAwait(ast.body) ? this.startAsync(frame) : frame;
+   }
+
+   /**
+    * Evaluate a pre-parsed AST in slices of `sliceOps` operations, yielding to the
+    * host event loop between slices so long-running scripts don't block it
+    */
+   async evaluateAsync(ast: t.Program, options: EvaluateAsyncOptions = {}): Promise<any> {
+      const { sliceOps = 10000, signal } = options;
+      if (signal?.aborted) throw new ExecutionAbortedError(signal.reason);
+
+      const execution = this.start(ast);
+      while (true) {
+         const step = execution.run(sliceOps);
+         if (step.done) {
+            return step.value;
+         }
+         await yieldToEventLoop();
+         if (signal?.aborted) throw new ExecutionAbortedError(signal.reason);
+      }
+   }
+
+   /**
+    * Start evaluating a pre-parsed AST without running it. The returned execution
+    * runs on an explicit frame stack and can be paused after a budget of operations.
+    */
+   start(ast: t.Program): Execution {
+      this.registerSources(ast);
+      this.hoistDeclarations(ast.body, this.globalScope);
+
+      const machine: Machine = {
+         stack: [this.programFrame(ast)],
+         throwing: false,
+         value: undefined,
+         pausable: true,
+      };
+      const budget: EntryBudget = {
+         opCount: 0,
+         deadline: Date.now() + this.timeoutMs,
+         allocated: 0,
+         callStack: [],
+         location: null,
+         scope: null,
+      };
+      let result: ExecutionResult | undefined;
+      let error: { thrown: any } | undefined;
+
+      return {
+         get done() {
+            return result !== undefined || error !== undefined;
+         },
+         run: (sliceOps = Infinity) => {
+            if (error) throw error.thrown;
+            if (result) return result;
+
+            if (this.paused?.machine === machine) this.paused = undefined;
+            try {
+               const step = this.enter(() => this.drive(machine, sliceOps), budget);
+               if (step.done) {
+                  result = step;
+                  this.stopStepping();
+               }
+               return step;
+            } catch (e) {
+               error = { thrown: e };
+               this.stopStepping();
+               throw e;
+            }
+         },
+      };
+   }
+
+   /**
+    * Pause executions from start() before statements at `location`. Returns the breakpoint's id.
+    */
+   setBreakpoint(location: BreakpointLocation): number {
+      const id = this.nextBreakpointId++;
+      this.breakpoints.set(id, { ...location });
+      this.updateDebugging();
+      return id;
+   }
+
+   /**
+    * Remove a breakpoint, returning whether it existed
+    */
+   removeBreakpoint(id: number): boolean {
+      const removed = this.breakpoints.delete(id);
+      this.updateDebugging();
+      return removed;
+   }
+
+   /**
+    * Pause the next execution from start() that runs a statement
+    */
+   pause(): void {
+      this.pauseRequested = true;
+      this.updateDebugging();
+   }
+
+   /**
+    * Make the paused execution pause again after a step when it next runs
+    */
+   step(mode: StepMode): void {
+      if (!this.paused) {
+         throw new Error("step() requires a paused execution");
+      }
+      this.stepping = { mode, depth: this.paused.depth };
+      this.updateDebugging();
+   }
+
+   /**
+    * Frames of the paused execution, innermost first; empty when nothing is paused.
+    * Variables are read when this is called.
+    */
+   getCallFrames(): DebugFrame[] {
+      return (this.paused?.frames ?? []).map(({ functionName, location, scope }) => ({
+         ...callSite(functionName, location),
+         scopes: this.describeScopes(scope),
+      }));
+   }
+
+   /**
+    * Evaluate code in the scope of a paused frame (0 is the innermost), returning its completion
+    * value. It can read and assign the frame's variables; its own declarations stay local.
+    * Requires the `parse` option.
+    */
+   evaluateInFrame(frameIndex: number, code: string): any {
+      const frame = this.paused?.frames[frameIndex];
+      if (!frame) {
+         throw new RangeError(`No paused frame at index ${frameIndex}`);
+      }
+      if (!this.parse) {
+         throw new Error(
+            "evaluateInFrame() is not supported without a parser. Pass parse option to Interpreter constructor.",
+         );
+      }
+
+      const program = this.parse(code);
+      const scope = this.createScope(frame.scope, "function");
+      return this.enter(() => {
+         this.registerSources(program);
+         this.hoistDeclarations(program.body, scope);
+         return this.runToCompletion(this.evalNode(program, scope));
+      });
+   }
+
+   /**
+    * Whether statements need to check for breakpoints, steps or pause requests
+    */
+   private updateDebugging(): void {
+      this.debugging = this.breakpoints.size > 0 || this.stepping !== undefined || this.pauseRequested;
+   }
+
+   /**
+    * Forget a step that will not complete because its execution ended
+    */
+   private stopStepping(): void {
+      this.stepping = undefined;
+      this.updateDebugging();
+   }
+
+   /**
+    * Why the debugger pauses before a statement, if it does
+    */
+   private pauseReason(node: t.Node): PauseInfo | undefined {
+      const start = node.loc?.start;
+      if (start) {
+         for (const [id, breakpoint] of this.breakpoints) {
+            if (
+               breakpoint.line === start.line &&
+               (breakpoint.column === undefined || breakpoint.column === start.column) &&
+               (breakpoint.source === undefined || breakpoint.source === node.loc?.filename)
+            ) {
+               return { ...this.pauseInfo("breakpoint", node), breakpointId: id };
+            }
+         }
+      }
+
+      const stepping = this.stepping;
+      if (
+         stepping &&
+         (stepping.mode === "into" ||
+            (stepping.mode === "over" && this.callStack.length <= stepping.depth) ||
+            (stepping.mode === "out" && this.callStack.length < stepping.depth))
+      ) {
+         return this.pauseInfo("step", node);
+      }
+      return this.pauseRequested ? this.pauseInfo("pause", node) : undefined;
+   }
+
+   /**
+    * Pause details for a pause before `node`
+    */
+   private pauseInfo(reason: PauseInfo["reason"], node: t.Node): PauseInfo {
+      const pause: PauseInfo = { reason };
+      if (node.loc) {
+         pause.line = node.loc.start.line;
+         pause.column = node.loc.start.column;
+         if (node.loc.filename) pause.source = node.loc.filename;
+      }
+      return pause;
+   }
+
+   /**
+    * Frames of the interpreted stack at a pause, from the paused statement's scope outwards
+    */
+   private pausedFrames(scope: Scope): PausedFrame[] {
+      const frames: PausedFrame[] = [];
+      let location = this.location;
+      let current: Scope | null = scope;
+      for (let i = this.callStack.length - 1; i >= 0; i--) {
+         frames.push({ functionName: this.callStack[i].functionName, location, scope: current as Scope });
+         location = this.callStack[i].callLocation;
+         current = this.callStack[i].callScope;
+      }
+      if (current) frames.push({ functionName: "<top-level>", location, scope: current });
+      return frames;
+   }
+
+   /**
+    * Snapshot of the bindings in a scope chain, leaving out internal bindings
+    */
+   private describeScopes(scope: Scope): DebugScope[] {
+      const scopes: DebugScope[] = [];
+      for (let current: Scope | null = scope; current; current = current.parent) {
+         const variables: Record<string, any> = {};
+         for (const name of Object.keys(current.vars)) {
+            if (INTERNAL_BINDINGS.has(name)) continue;
+            let value: any;
+            try {
+               value = current.vars[name];
+            } catch {
+               // Imports of bindings still in their temporal dead zone
+               continue;
+            }
+            if (value !== UNINITIALIZED) variables[name] = value;
+         }
+         scopes.push({
+            type: current.parent === null ? "global" : MODULE in current.vars ? "module" : current.type,
+            variables,
+         });
+      }
+      return scopes;
+   }
+
+   /**
+    * Load, link and evaluate an ES module and the modules it imports, resolving to its
+    * namespace object. Each module is evaluated once; later imports share the instance.
+    */
+   evaluateModule(specifier: string): Promise<any> {
+      return this.importModule(specifier, undefined);
+   }
+
+   /**
+    * Register host values as a module that sandboxed code imports by `specifier`, matched
+    * exactly before the module loader is asked. Each own enumerable property becomes a named
+    * export, read live from `exports`; the default export is `exports.default` if present,
+    * otherwise `exports` itself.
+    */
+   defineModule(specifier: string, exports: Record<string, any>, options: HostModuleOptions = {}): void {
+      if (this.hostModules.has(specifier)) {
+         throw new Error(`Module '${specifier}' is already defined`);
+      }
+
+      const record = this.createModuleRecord(specifier, EMPTY_PROGRAM);
+      const names = Object.keys(exports);
+      if (!names.includes("default")) {
+         record.scope.vars.default = exports;
+         record.localExports.set("default", "default");
+      }
+      for (const name of names) {
+         Object.defineProperty(record.scope.vars, name, { get: () => exports[name], enumerable: true });
+         record.localExports.set(name, name);
+      }
+      record.linked = true;
+      record.evaluation = Promise.resolve();
+      this.hostModules.set(specifier, { record, exports, allow: options.allow });
+   }
+
+   /**
+    * Host-defined module registered under `specifier`, if `referrer` may import it
+    */
+   private getHostModule(specifier: string, referrer: string | undefined): HostModule | undefined {
+      const hostModule = this.hostModules.get(specifier);
+      if (hostModule?.allow && !hostModule.allow(referrer)) {
+         throw new ModuleAccessError(`Module '${referrer ?? "<script>"}' may not import '${specifier}'`);
+      }
+      return hostModule;
+   }
+
+   /**
+    * Evaluate a script as a CommonJS module with its own `module`, `exports` and `require`,
+    * returning `module.exports`. Given an `id`, the module is cached under it and required
+    * module specifiers resolve relative to it.
+    */
+   evaluateCommonJS(ast: t.Program, id?: string): any {
+      return this.enter(() => this.evalCommonJS(ast, { id, exports: {}, loaded: false }));
+   }
+
+   /**
+    * Run a program in a CommonJS module scope. The module is cached while it runs, so a
+    * require() cycle receives its unfinished exports; a module that throws is uncached.
+    */
+   private evalCommonJS(ast: t.Program, module: CommonJSModule): any {
+      if (hasTopLevelAwait(ast.body)) {
+         throw new SyntaxError("await is only valid in async functions and ES modules");
+      }
+
+      const scope = this.createScope(this.globalScope, "function");
+      scope.vars.module = module;
+      scope.vars.exports = module.exports;
+      scope.vars.require = this.createRequire(module.id);
+      scope.vars.this = module.exports;
+      this.registerSources(ast);
+      this.hoistDeclarations(ast.body, scope);
+
+      if (module.id !== undefined) this.commonJSModules.set(module.id, module);
+      try {
+         this.runToCompletion(this.evalNode(ast, scope));
+      } catch (e) {
+         if (module.id !== undefined) this.commonJSModules.delete(module.id);
+         throw e;
+      }
+      module.loaded = true;
+      return module.exports;
+   }
+
+   /**
+    * `require` of a CommonJS module. Host-defined modules resolve to the object passed to
+    * defineModule(); other modules come from the CommonJS loader and run once per id.
+    */
+   private createRequire(referrer: string | undefined): (specifier: string) => any {
+      return (specifier) => {
+         specifier = String(specifier);
+         const hostModule = this.getHostModule(specifier, referrer);
+         if (hostModule) return hostModule.exports;
+
+         const loader = this.commonJSLoader;
+         if (!loader) {
+            throw new TypeError(`Cannot require '${specifier}': no commonJSLoader was configured`);
+         }
+         const id = loader.resolve(specifier, referrer);
+         const cached = this.commonJSModules.get(id);
+         if (cached) return cached.exports;
+         return this.enter(() => this.evalCommonJS(loader.load(id), { id, exports: {}, loaded: false }));
+      };
+   }
+
+   /**
+    * import() and evaluateModule(): load the module graph, link it and evaluate it
+    */
+   private async importModule(specifier: unknown, referrer: string | undefined): Promise<any> {
+      const record = await this.fetchModule(String(specifier), referrer);
+      await this.loadModuleGraph(record, new Set());
+      this.enter(() => this.linkModule(record));
+      await this.evaluateModuleRecord(record, new Set());
+      return this.getNamespace(record);
+   }
+
+   /**
+    * Module whose code a scope belongs to
+    */
+   private moduleOf(scope: Scope | null): ModuleRecord | undefined {
+      for (let current = scope; current; current = current.parent) {
+         if (MODULE in current.vars) return current.vars[MODULE];
+      }
+      return undefined;
+   }
+
+   /**
+    * Resolve a specifier and create the module's record, loading each URL only once
+    */
+   private async fetchModule(specifier: string, referrer: string | undefined): Promise<ModuleRecord> {
+      const hostModule = this.getHostModule(specifier, referrer);
+      if (hostModule) return hostModule.record;
+
+      const loader = this.moduleLoader;
+      if (!loader) {
+         throw new TypeError(`Cannot import '${specifier}': no moduleLoader was configured`);
+      }
+      const url = await loader.resolve(specifier, referrer);
+      let record = this.modules.get(url);
+      if (!record) {
+         record = Promise.resolve(loader.load(url)).then((program) => this.createModuleRecord(url, program));
+         this.modules.set(url, record);
+      }
+      return record;
+   }
+
+   /**
+    * Record a module's scope, requests and exports from its AST
+    */
+   private createModuleRecord(url: string, program: t.Program): ModuleRecord {
+      const record: ModuleRecord = {
+         url,
+         program,
+         scope: this.createScope(this.globalScope, "function"),
+         meta: Object.assign(Object.create(null), { url }),
+         requests: [],
+         requested: new Map(),
+         localExports: new Map(),
+         indirectExports: new Map(),
+         starExports: [],
+         linked: false,
+      };
+      record.scope.vars.this = undefined;
+      record.scope.vars[MODULE] = record;
+
+      const exportName = (node: t.Identifier | t.StringLiteral) =>
+         node.type === "Identifier" ? node.name : node.value;
+      for (const stmt of program.body) {
+         if (stmt.type === "ImportDeclaration") {
+            record.requests.push(stmt.source.value);
+         } else if (stmt.type === "ExportAllDeclaration") {
+            record.requests.push(stmt.source.value);
+            record.starExports.push(stmt.source.value);
+         } else if (stmt.type === "ExportDefaultDeclaration") {
+            const declaration = stmt.declaration;
+            const named =
+               (declaration.type === "FunctionDeclaration" || declaration.type === "ClassDeclaration") &&
+               declaration.id;
+            record.localExports.set("default", named ? named.name : DEFAULT_EXPORT);
+         } else if (stmt.type === "ExportNamedDeclaration") {
+            const source = stmt.source?.value;
+            if (source !== undefined) record.requests.push(source);
+
+            if (stmt.declaration?.type === "VariableDeclaration") {
+               for (const decl of stmt.declaration.declarations) {
+                  for (const name of this.patternNames(decl.id)) record.localExports.set(name, name);
+               }
+            } else if (stmt.declaration && "id" in stmt.declaration && stmt.declaration.id?.type === "Identifier") {
+               record.localExports.set(stmt.declaration.id.name, stmt.declaration.id.name);
+            }
+
+            for (const specifier of stmt.specifiers) {
+               const exported = exportName(specifier.exported);
+               if (specifier.type === "ExportNamespaceSpecifier") {
+                  record.indirectExports.set(exported, { specifier: source as string, importName: "*" });
+               } else if (specifier.type === "ExportSpecifier") {
+                  if (source !== undefined) {
+                     record.indirectExports.set(exported, {
+                        specifier: source,
+                        importName: exportName(specifier.local),
+                     });
+                  } else {
+                     record.localExports.set(exported, specifier.local.name);
+                  }
+               }
+            }
+         }
+      }
+      return record;
+   }
+
+   /**
+    * Load every module reachable from `record`
+    */
+   private async loadModuleGraph(record: ModuleRecord, seen: Set<ModuleRecord>): Promise<void> {
+      seen.add(record);
+      for (const specifier of record.requests) {
+         let dependency = record.requested.get(specifier);
+         if (!dependency) {
+            dependency = await this.fetchModule(specifier, record.url);
+            record.requested.set(specifier, dependency);
+         }
+         if (!seen.has(dependency)) await this.loadModuleGraph(dependency, seen);
+      }
+   }
+
+   /**
+    * Hoist a module's declarations and bind its imports to the exporting modules' bindings.
+    * Imports are live: they read the exporter's binding on every access.
+    */
+   private linkModule(record: ModuleRecord): void {
+      if (record.linked) return;
+      record.linked = true;
+
+      const scope = record.scope;
+      const statements: t.Statement[] = [];
+      for (const stmt of record.program.body) {
+         if (stmt.type === "ExportNamedDeclaration" && stmt.declaration) {
+            statements.push(stmt.declaration);
+         } else if (stmt.type === "ExportDefaultDeclaration") {
+            const declaration = stmt.declaration;
+            if (declaration.type === "FunctionDeclaration" && !declaration.id) {
+               scope.vars[DEFAULT_EXPORT] = this.createFunction(declaration, scope, "default");
+            } else if (declaration.type === "FunctionDeclaration" || declaration.type === "ClassDeclaration") {
+               statements.push(declaration);
+               if (!declaration.id) scope.vars[DEFAULT_EXPORT] = UNINITIALIZED;
+            } else {
+               scope.vars[DEFAULT_EXPORT] = UNINITIALIZED;
+            }
+         } else {
+            statements.push(stmt);
+         }
+      }
+      this.registerSources(record.program);
+      this.hoistDeclarations(statements, scope);
+
+      for (const dependency of record.requested.values()) {
+         this.linkModule(dependency);
+      }
+
+      for (const stmt of record.program.body) {
+         if (stmt.type !== "ImportDeclaration") continue;
+         const dependency = record.requested.get(stmt.source.value) as ModuleRecord;
+         for (const specifier of stmt.specifiers) {
+            let binding: ResolvedExport;
+            if (specifier.type === "ImportNamespaceSpecifier") {
+               binding = { namespace: dependency };
+            } else {
+               const imported =
+                  specifier.type === "ImportDefaultSpecifier"
+                     ? "default"
+                     : specifier.imported.type === "Identifier"
+                       ? specifier.imported.name
+                       : specifier.imported.value;
+               binding = this.resolveImport(dependency, imported);
+            }
+            Object.defineProperty(scope.vars, specifier.local.name, {
+               get: () => this.readExport(binding),
+               enumerable: true,
+               configurable: true,
+            });
+            scope.constants ??= new Set();
+            scope.constants.add(specifier.local.name);
+         }
+      }
+
+      // Indirect exports must resolve too, even if nothing imports them yet
+      for (const name of record.indirectExports.keys()) {
+         this.resolveImport(record, name);
+      }
+   }
+
+   /**
+    * Resolve an imported name, throwing a SyntaxError when the module does not export it
+    */
+   private resolveImport(record: ModuleRecord, name: string): ResolvedExport {
+      const binding = this.resolveExport(record, name, new Set());
+      if (binding === "ambiguous") {
+         throw new SyntaxError(
+            `The requested module '${record.url}' contains conflicting star exports for name '${name}'`,
+         );
+      }
+      if (!binding) {
+         throw new SyntaxError(`The requested module '${record.url}' does not provide an export named '${name}'`);
+      }
+      return binding;
+   }
+
+   /**
+    * Find the binding behind an export name, following re-exports and `export *`
+    */
+   private resolveExport(record: ModuleRecord, name: string, seen: Set<string>): ResolvedExport | "ambiguous" | null {
+      const key = `${record.url}\0${name}`;
+      if (seen.has(key)) return null;
+      seen.add(key);
+
+      const local = record.localExports.get(name);
+      if (local !== undefined) return { module: record, name: local };
+
+      const indirect = record.indirectExports.get(name);
+      if (indirect) {
+         const dependency = record.requested.get(indirect.specifier) as ModuleRecord;
+         return indirect.importName === "*"
+            ? { namespace: dependency }
+            : this.resolveExport(dependency, indirect.importName, seen);
+      }
+
+      // export * never re-exports default
+      if (name === "default") return null;
+
+      let found: ResolvedExport | null = null;
+      for (const specifier of record.starExports) {
+         const binding = this.resolveExport(record.requested.get(specifier) as ModuleRecord, name, seen);
+         if (binding === "ambiguous") return binding;
+         if (!binding) continue;
+         if (
+            found &&
+            ("namespace" in found
+               ? !("namespace" in binding) || found.namespace !== binding.namespace
+               : "namespace" in binding || found.module !== binding.module || found.name !== binding.name)
+         ) {
+            return "ambiguous";
+         }
+         found = binding;
+      }
+      return found;
+   }
+
+   /**
+    * Current value of a resolved export
+    */
+   private readExport(binding: ResolvedExport): any {
+      if ("namespace" in binding) return this.getNamespace(binding.namespace);
+      return this.getVar(binding.module.scope, binding.name);
+   }
+
+   /**
+    * Export names of a module, including names reachable through `export *`
+    */
+   private exportNames(record: ModuleRecord, seen: Set<ModuleRecord>): string[] {
+      if (seen.has(record)) return [];
+      seen.add(record);
+      const names = [...record.localExports.keys(), ...record.indirectExports.keys()];
+      for (const specifier of record.starExports) {
+         for (const name of this.exportNames(record.requested.get(specifier) as ModuleRecord, seen)) {
+            if (name !== "default" && !names.includes(name)) names.push(name);
+         }
+      }
+      return names;
+   }
+
+   /**
+    * Module namespace object: a non-extensible object with a live getter per export
+    */
+   private getNamespace(record: ModuleRecord): object {
+      if (record.namespace) return record.namespace;
+
+      const namespace = Object.create(null);
+      for (const name of this.exportNames(record, new Set()).sort()) {
+         const binding = this.resolveExport(record, name, new Set());
+         if (!binding || binding === "ambiguous") continue;
+         Object.defineProperty(namespace, name, { get: () => this.readExport(binding), enumerable: true });
+      }
+      Object.defineProperty(namespace, Symbol.toStringTag, { value: "Module" });
+      Object.preventExtensions(namespace);
+      record.namespace = namespace;
+      return namespace;
+   }
+
+   /**
+    * Evaluate a linked module after its dependencies. A module already being evaluated
+    * further up the import chain (a cycle) is not waited for.
+    */
+   private evaluateModuleRecord(record: ModuleRecord, ancestors: Set<ModuleRecord>): Promise<void> {
+      if (ancestors.has(record)) return Promise.resolve();
+      if (record.evaluation) return record.evaluation;
+      ancestors.add(record);
+
+      record.evaluation = (async () => {
+         for (const dependency of record.requested.values()) {
+            await this.evaluateModuleRecord(dependency, ancestors);
+         }
+         const body = this.evalNode(record.program, record.scope);
+         await this.enter(() =>
+            this.runToCompletion(hasTopLevelAwait(record.program.body) ? this.startAsync(body) : body),
+         );
+      })();
+      return record.evaluation;
+   }
+
+   /**
+    * Hoist function and var declarations to the top of their scope
+    */
+   private hoistDeclarations(statements: t.Statement[], scope: Scope): void {
+      // First pass: hoist var declarations and function names
+      for (const stmt of statements) {
+         if (stmt.type === "VariableDeclaration" && stmt.kind === "var") {
+            // Hoist var declarations (initialized to undefined)
+            for (const decl of stmt.declarations) {
+               for (const name of this.patternNames(decl.id)) {
+                  scope.vars[name] = undefined;
+               }
+            }
+         }
+      }
+      this.hoistLexicalDeclarations(statements, scope);
+   }
+
+   /**
+    * Hoist the block-scoped declarations of a statement list: functions are created
+    * immediately, let/const bindings are in their temporal dead zone until declared
+    */
+   private hoistLexicalDeclarations(statements: t.Statement[], scope: Scope): void {
+      for (const stmt of statements) {
+         if (stmt.type === "FunctionDeclaration" && stmt.id) {
+            // Hoist function declaration - create the function immediately
+            scope.vars[stmt.id.name] = this.createFunction(stmt, scope);
+         } else if (stmt.type === "VariableDeclaration" && stmt.kind !== "var") {
+            for (const decl of stmt.declarations) {
+               for (const name of this.patternNames(decl.id)) {
+                  scope.vars[name] = UNINITIALIZED;
+               }
+            }
+         } else if (stmt.type === "ClassDeclaration" && stmt.id) {
+            scope.vars[stmt.id.name] = UNINITIALIZED;
+         }
+      }
+   }
+
+   /**
+    * Names bound by a binding pattern
+    */
+   private patternNames(pattern: t.Node | null, names: string[] = []): string[] {
+      switch (pattern?.type) {
+         case "Identifier":
+            names.push(pattern.name);
+            break;
+         case "AssignmentPattern":
+            this.patternNames(pattern.left, names);
+            break;
+         case "RestElement":
+            this.patternNames(pattern.argument, names);
+            break;
+         case "ArrayPattern":
+            for (const element of pattern.elements) this.patternNames(element, names);
+            break;
+         case "ObjectPattern":
+            for (const prop of pattern.properties) {
+               this.patternNames(prop.type === "RestElement" ? prop : prop.value, names);
+            }
+            break;
+      }
+      return names;
+   }
+
+   /**
+    * Create a new scope
+    */
+   private createScope(parent: Scope | null, type: "function" | "block" = "block"): Scope {
+      return { parent, vars: {}, type };
+   }
+
+   /**
+    * Copy a scope's bindings into a sibling scope (per-iteration bindings of for loops)
+    */
+   private copyScope(scope: Scope): Scope {
+      return {
+         parent: scope.parent,
+         vars: { ...scope.vars },
+         type: scope.type,
+         constants: scope.constants,
+      };
+   }
+
+   /**
+    * Get variable from scope chain
+    */
+   private getVar(scope: Scope | null, name: string): any {
+      if (!scope) {
+         throw new ReferenceError(`${name} is not defined`);
       }
 
       if (name in scope.vars) {
-         return scope.vars[name];
+         const value = scope.vars[name];
+         if (value === UNINITIALIZED) {
+            throw new ReferenceError(
+               name === "this"
+                  ? "Must call super constructor in derived class before accessing 'this' or returning from derived constructor"
+                  : `Cannot access '${name}' before initialization`,
+            );
+         }
+         return value;
+      }
+
+      if (scope.parent) {
+         return this.getVar(scope.parent, name);
+      }
+
+      throw new ReferenceError(`${name} is not defined`);
+   }
+
+   /**
+    * Set variable in scope chain
+    */
+   private setVar(scope: Scope | null, name: string, value: any): void {
+      if (!scope) {
+         throw new ReferenceError(`${name} is not defined`);
+      }
+
+      if (name in scope.vars) {
+         if (scope.vars[name] === UNINITIALIZED) {
+            throw new ReferenceError(`Cannot access '${name}' before initialization`);
+         }
+         if (scope.constants?.has(name)) {
+            throw new TypeError("Assignment to constant variable.");
+         }
+         scope.vars[name] = value;
+         return;
+      }
+
+      if (scope.parent) {
+         this.setVar(scope.parent, name, value);
+         return;
+      }
+
+      // In non-strict mode, assignment to undefined variable creates a global
+      // Since we hoisted all vars, if it's not found, it means we're setting
+      // a hoisted var that exists in the scope (edge case for hoisting)
+      scope.vars[name] = value;
+   }
+
+   /**
+    * Declare variable with var semantics (function-scoped hoisting)
+    */
+   private declareVar(scope: Scope, name: string, value: any): void {
+      // var is function-scoped, not block-scoped
+      let targetScope = scope;
+      while (targetScope.parent && targetScope.type === "block") {
+         targetScope = targetScope.parent;
+      }
+      targetScope.vars[name] = value;
+   }
+
+   /**
+    * Declare let/const variable (block-scoped)
+    */
+   private declareLet(scope: Scope, name: string, value: any, constant = false): void {
+      scope.vars[name] = value;
+      if (constant) {
+         scope.constants ??= new Set();
+         scope.constants.add(name);
+      }
+   }
+
+   /**
+    * Bind a single name the way a pattern of the given kind binds it
+    */
+   private bindName(scope: Scope, name: string, value: any, kind: BindingKind): void {
+      switch (kind) {
+         case "var":
+            this.declareVar(scope, name, value);
+            break;
+         case "let":
+         case "const":
+            this.declareLet(scope, name, value, kind === "const");
+            break;
+         case "param":
+            scope.vars[name] = value;
+            break;
+         case "assign":
+            this.setVar(scope, name, value);
+            break;
+      }
+   }
+
+   /**
+    * Bind a value to an identifier, member expression or destructuring pattern
+    */
+   private *bindPattern(pattern: t.Node, value: any, scope: Scope, kind: BindingKind): Frame {
+      switch (pattern.type) {
+         case "Identifier":
+            this.bindName(scope, pattern.name, value, kind);
+            return;
+
+         case "MemberExpression": {
+            const obj = yield this.evalNode(pattern.object, scope);
+            const prop = pattern.computed
+               ? yield this.evalNode(pattern.property, scope)
+               : (pattern.property as t.Identifier).name;
+            if (this.sandboxObjects) this.reportPropertyAccess(obj, prop, "set");
+            this.setMember(obj, prop, value);
+            return;
+         }
+
+         case "AssignmentPattern":
+            if (value === undefined) {
+               value = yield this.evalNode(pattern.right, scope);
+               if (pattern.left.type === "Identifier") this.nameFunction(pattern.right, value, pattern.left.name);
+            }
+            return yield this.bindPattern(pattern.left, value, scope, kind);
+
+         case "ArrayPattern": {
+            const iterator = yield this.getIterator(value);
+            // done is set while next() runs: an iterator that throws is not closed
+            let done = false;
+            try {
+               for (const element of pattern.elements) {
+                  if (element?.type === "RestElement") {
+                     const rest: any[] = [];
+                     while (!done) {
+                        done = true;
+                        const step = yield this.resumeIterator(iterator, "next", undefined);
+                        done = step.done;
+                        if (!done) rest.push(step.value);
+                     }
+                     this.allocate(arraySize(rest.length));
+                     this.sandboxObjects?.add(rest);
+                     yield this.bindPattern(element.argument, rest, scope, kind);
+                     continue;
+                  }
+
+                  let item: any;
+                  if (!done) {
+                     done = true;
+                     const step = yield this.resumeIterator(iterator, "next", undefined);
+                     done = step.done;
+                     if (!done) item = step.value;
+                  }
+                  if (element) yield this.bindPattern(element, item, scope, kind);
+               }
+            } catch (e) {
+               if (!done && !(e instanceof ExecutionInterruptedError)) {
+                  yield this.closeIterator(iterator, true);
+               }
+               throw e;
+            }
+            // Close iterators the pattern did not exhaust
+            if (!done) yield this.closeIterator(iterator, false);
+            return;
+         }
+
+         case "ObjectPattern": {
+            if (value === null || value === undefined) {
+               throw new TypeError(`Cannot destructure '${value}' as it is ${value}.`);
+            }
+            const usedKeys: PropertyKey[] = [];
+            for (const prop of pattern.properties) {
+               if (prop.type === "RestElement") {
+                  const rest: any = {};
+                  for (const key of Reflect.ownKeys(Object(value))) {
+                     if (!usedKeys.includes(key) && Object.prototype.propertyIsEnumerable.call(value, key)) {
+                        rest[key] = value[key];
+                     }
+                  }
+                  this.allocate(OBJECT_SIZE + Reflect.ownKeys(rest).length * PROPERTY_SIZE);
+                  this.sandboxObjects?.add(rest);
+                  yield this.bindPattern(prop.argument, rest, scope, kind);
+                  continue;
+               }
+
+               const key =
+                  prop.key.type === "Identifier" && !prop.computed
+                     ? prop.key.name
+                     : yield this.evalNode(prop.key, scope);
+               usedKeys.push(typeof key === "symbol" ? key : String(key));
+               if (this.sandboxObjects) this.reportPropertyAccess(value, key, "get");
+               yield this.bindPattern(prop.value, value[key], scope, kind);
+            }
+            return;
+         }
+
+         default:
+            throw new SyntaxError(`Invalid destructuring target: ${pattern.type}`);
+      }
+   }
+
+   /**
+    * Get an iterator from an iterable, as for...of, spread and destructuring do
+    */
+   private *getIterator(iterable: any): Frame {
+      const method = iterable?.[Symbol.iterator];
+      if (typeof method !== "function") {
+         throw new TypeError(`${typeof iterable === "object" ? "object" : String(iterable)} is not iterable`);
+      }
+      const iterator = yield this.callValue(method, iterable, []);
+      if (iterator === null || typeof iterator !== "object") {
+         throw new TypeError("Result of the Symbol.iterator method is not an object");
+      }
+      return iterator;
+   }
+
+   /**
+    * Call return() on an iterator left before it finished. When the loop is leaving
+    * because of a thrown error, that error wins over anything return() does.
+    */
+   private *closeIterator(iterator: any, throwing: boolean, async = false): Frame {
+      const method = iterator.return;
+      if (method === undefined || method === null) return;
+      try {
+         let result = yield this.callValue(method, iterator, []);
+         if (async) result = yield { signal: "await", value: result } as Signal;
+         if (result === null || typeof result !== "object") {
+            throw new TypeError(`Iterator result ${result} is not an object`);
+         }
+      } catch (e) {
+         if (!throwing || e instanceof ExecutionInterruptedError) throw e;
+      }
+   }
+
+   /**
+    * Collect the values of an iterable, keeping interpreted generators on the current stack
+    */
+   private *spreadValues(iterable: any): Frame {
+      const iterator = yield this.getIterator(iterable);
+      const values: any[] = [];
+      while (true) {
+         const step = yield this.resumeIterator(iterator, "next", undefined);
+         if (step.done) return values;
+         values.push(step.value);
+      }
+   }
+
+   /**
+    * Evaluate call arguments, expanding spread elements
+    */
+   private *evalArguments(nodes: t.CallExpression["arguments"], scope: Scope): Frame {
+      const args: any[] = [];
+      for (const arg of nodes) {
+         if (arg.type === "SpreadElement") {
+            // One push per element: spreading into push() would pass each value as a host argument
+            for (const value of yield this.spreadValues(yield this.evalNode(arg.argument, scope))) args.push(value);
+         } else {
+            args.push(yield this.evalNode(arg, scope));
+         }
+      }
+      return args;
+   }
+
+   /**
+    * Charge operations to the budgets to prevent infinite loops
+    */
+   private checkOps(cost = 1): void {
+      if (this.profiler) this.profiler.charge(cost);
+      this.opCount += cost;
+      if (this.opCount > this.maxOps) {
+         throw new ExecutionTimeoutError("Execution timeout: maximum operations exceeded");
+      }
+      this.totalOps += cost;
+      if (this.totalOps > this.maxTotalOps) {
+         this.totalOps = this.maxTotalOps;
+         throw new ExecutionTimeoutError("Execution timeout: lifetime operation budget exhausted");
+      }
+      // Reading the clock is comparatively expensive, so poll deadline and signal every 1024
+      // operations, or right after a host call returned
+      this.pollCountdown -= cost;
+      if (this.pollCountdown <= 0) {
+         this.pollCountdown = 1024;
+         this.checkInterrupts();
+      }
+   }
+
+   /**
+    * Charge an estimated allocation against the memory limit
+    */
+   private allocate(bytes: number): void {
+      this.allocated += bytes;
+      if (this.allocated > this.maxMemory) {
+         throw new MemoryLimitError(
+            `Memory limit exceeded: estimated ${this.allocated} bytes allocated, limit is ${this.maxMemory}`,
+         );
+      }
+   }
+
+   /**
+    * Assign a property, charging new properties and the elements an array grows by when its
+    * length or an index past its end is set
+    */
+   private setMember(obj: any, prop: any, value: any): void {
+      if (this.maxMemory === Infinity || obj === null || typeof obj !== "object") {
+         obj[prop] = value;
+         return;
       }
+      if (!(prop in obj)) this.allocate(PROPERTY_SIZE);
+      const length = Array.isArray(obj) ? obj.length : 0;
+      obj[prop] = value;
+      if (Array.isArray(obj) && obj.length > length) {
+         this.allocate((obj.length - length) * ELEMENT_SIZE);
+      }
+   }
 
-      if (scope.parent) {
-         return this.getVar(scope.parent, name);
+   /**
+    * Copy the own enumerable properties of a spread source onto an object literal, charging each
+    * one. They become data properties even where the literal already has an accessor of that key.
+    */
+   private copyDataProperties(target: any, source: any): void {
+      if (source === null || source === undefined) return;
+      const from = Object(source);
+      for (const key of Reflect.ownKeys(from)) {
+         if (!Object.getOwnPropertyDescriptor(from, key)?.enumerable) continue;
+         this.allocate(PROPERTY_SIZE);
+         Object.defineProperty(target, key, { value: from[key], writable: true, enumerable: true, configurable: true });
       }
+   }
 
-      throw new ReferenceError(`${name} is not defined`);
+   /**
+    * Call a host function (or construct with it), charging its cost and estimated allocations
+    */
+   private callHost(fn: any, thisArg: any, args: any[], construct: boolean, newTarget: any = fn): any {
+      this.chargeHostCall(fn, thisArg, args);
+      if (this.maxMemory !== Infinity) {
+         this.allocate(estimateHostAllocation(fn, thisArg, args));
+      }
+
+      const call = this.traceCalls ? { callee: fn, thisArg, args, host: true, construct } : undefined;
+      if (call) this.hooks.onCall?.(call);
+      const profiler = this.profiler;
+      const caller = profiler?.enter(fn, () => ({ functionName: fn.name || "<anonymous>", host: true }));
+
+      // Host calls may be slow, so poll the deadline and signal on the next operation
+      this.pollCountdown = 0;
+      let result: any;
+      try {
+         result = construct
+            ? Reflect.construct(fn, args, newTarget)
+            : thisArg !== undefined
+              ? fn.call(thisArg, ...args)
+              : fn(...args);
+      } catch (error) {
+         if (call) this.hooks.onReturn?.(call, error, true);
+         throw error;
+      } finally {
+         if (caller) profiler?.exit(caller);
+      }
+      if (call) this.hooks.onReturn?.(call, result, false);
+
+      // Errors created by sandboxed code get the interpreted stack
+      if (result instanceof Error && (fn === Error || fn.prototype instanceof Error)) {
+         this.annotateError(result);
+      }
+      if (this.maxMemory !== Infinity && result !== thisArg) {
+         this.allocate(estimateSize(result));
+      }
+      return result;
    }
 
    /**
-    * Set variable in scope chain
+    * Attach the interpreted stack to an error when it is created or first thrown in sandboxed
+    * code: `callStack` lists the interpreted frames innermost first, `loc` is the location of
+    * the failing node, and `stack` shows the interpreted frames instead of host internals
     */
-   private setVar(scope: Scope | null, name: string, value: any): void {
-      if (!scope) {
-         throw new ReferenceError(`${name} is not defined`);
+   private annotateError(error: Error): void {
+      if (this.annotatedErrors.has(error)) return;
+      this.annotatedErrors.add(error);
+
+      const callStack: CallSite[] = [];
+      let location = this.location;
+      for (let i = this.callStack.length - 1; i >= 0; i--) {
+         callStack.push(callSite(this.callStack[i].functionName, location));
+         location = this.callStack[i].callLocation;
       }
+      if (location) callStack.push(callSite("<top-level>", location));
 
-      if (name in scope.vars) {
-         scope.vars[name] = value;
-         return;
+      const failing = this.location?.start;
+      const frames = callStack.map(({ functionName, line, column }) =>
+         line === undefined ? `    at ${functionName}` : `    at ${functionName} (${line}:${(column as number) + 1})`,
+      );
+      try {
+         const annotated = error as Error & { callStack: CallSite[]; loc?: { line: number; column: number } };
+         annotated.callStack = callStack;
+         if (failing) annotated.loc = { line: failing.line, column: failing.column };
+         annotated.stack = [Error.prototype.toString.call(error), ...frames].join("\n");
+      } catch {
+         // Frozen errors keep their host stack
       }
+   }
 
-      if (scope.parent) {
-         this.setVar(scope.parent, name, value);
+   /**
+    * Whether a continue goes to the next iteration of `loop`: it has no label, or one of the
+    * labels in front of the loop
+    */
+   private isLoopContinue(label: string | undefined, loop: t.Node): boolean {
+      return !label || !!this.loopLabels.get(loop)?.has(label);
+   }
+
+   /**
+    * Operations charged for evaluating a node
+    */
+   private nodeCost(node: t.Node): number {
+      return this.nodeCosts === undefined ? 1 : (this.nodeCosts[node.type] ?? this.defaultNodeCost);
+   }
+
+   /**
+    * Read a property, blocking prototype and built-in constructor access
+    */
+   private getMember(obj: any, prop: any): any {
+      if (this.sandboxObjects) this.reportPropertyAccess(obj, prop, "get");
+      return this.isBlockedMember(obj, prop) ? undefined : obj[prop];
+   }
+
+   /**
+    * Report a property access to the onHostPropertyAccess hook if the object is a host object
+    */
+   private reportPropertyAccess(obj: any, prop: any, kind: "get" | "set"): void {
+      if (
+         obj === null ||
+         (typeof obj !== "object" && typeof obj !== "function") ||
+         this.sandboxObjects?.has(obj) ||
+         this.functions.has(obj) ||
+         this.generators.has(obj)
+      ) {
          return;
       }
+      this.hooks.onHostPropertyAccess?.(obj, prop, kind);
+   }
 
-      // In non-strict mode, assignment to undefined variable creates a global
-      // Since we hoisted all vars, if it's not found, it means we're setting
-      // a hoisted var that exists in the scope (edge case for hoisting)
-      scope.vars[name] = value;
+   /**
+    * Whether reading a property is blocked: `__proto__`, and `constructor` of built-ins
+    */
+   private isBlockedMember(obj: any, prop: any): boolean {
+      // Block prototype pollution via __proto__
+      if (prop === "__proto__") {
+         return true;
+      }
+
+      // Block modification of built-in constructors (but allow user functions)
+      if (prop === "constructor" && obj !== null && obj !== undefined) {
+         return [Object, Array, String, Number, Boolean, Function, RegExp, Date, Error].includes(obj.constructor);
+      }
+      return false;
    }
 
    /**
-    * Declare variable with var semantics (function-scoped hoisting)
+    * Prototype that `super.prop` reads from: the prototype of the running method's home object
     */
-   private declareVar(scope: Scope, name: string, value: any): void {
-      // var is function-scoped, not block-scoped
-      let targetScope = scope;
-      while (targetScope.parent && targetScope.type === "block") {
-         targetScope = targetScope.parent;
+   private superBase(scope: Scope): any {
+      const home = this.getVar(scope, HOME_OBJECT);
+      if (home === undefined) {
+         throw new SyntaxError("'super' keyword unexpected here");
       }
-      targetScope.vars[name] = value;
+      return Object.getPrototypeOf(home);
    }
 
    /**
-    * Declare let/const variable (block-scoped)
+    * Call a host or interpreted function, keeping interpreted code on the current stack
     */
-   private declareLet(scope: Scope, name: string, value: any): void {
-      scope.vars[name] = value;
+   private *callValue(callee: any, thisContext: any, args: any[]): Frame {
+      // Function.prototype methods applied to interpreted functions stay on the current stack
+      const functionMethod = this.functionMethods.get(callee);
+      if (functionMethod && this.functions.has(thisContext)) {
+         return yield this.applyFunctionMethod(functionMethod, thisContext, args);
+      }
+      if (callee === nativeCall && thisContext === nativeToString && this.functions.has(args[0])) {
+         return this.functionSource(args[0]);
+      }
+
+      // Native function
+      if (typeof callee === "function" && !this.functions.has(callee)) {
+         // Resume interpreted generators on the current stack instead of a nested driver
+         const resumeMode = this.generatorMethods.get(callee);
+         const generator = resumeMode && this.generators.get(thisContext);
+         if (resumeMode && generator) {
+            return yield { signal: "resume", generator, mode: resumeMode, value: args[0] } as Signal;
+         }
+         return this.callHost(callee, thisContext, args, false);
+      }
+
+      // Interpreted function
+      return yield this.invokeFunction(callee, args, thisContext);
+   }
+
+   /**
+    * Frozen strings array passed to template tags, created once per template site
+    */
+   private templateObject(quasi: t.TemplateLiteral): TemplateStringsArray {
+      let strings = this.templateObjects.get(quasi);
+      if (!strings) {
+         const raw = Object.freeze(quasi.quasis.map((q) => q.value.raw));
+         strings = Object.freeze(
+            Object.defineProperty(
+               quasi.quasis.map((q) => q.value.cooked),
+               "raw",
+               { value: raw },
+            ),
+         ) as unknown as TemplateStringsArray;
+         this.templateObjects.set(quasi, strings);
+      }
+      return strings;
+   }
+
+   /**
+    * Charge the cost model's price for calling a host function
+    */
+   private chargeHostCall(fn: any, thisArg: any, args: any[]): void {
+      if (this.hostCallCost) {
+         const cost = this.hostCallCost(fn, thisArg, args);
+         if (cost > 0) this.checkOps(cost);
+      }
+   }
+
+   /**
+    * Throw if the abort signal fired or the wall-clock deadline passed
+    */
+   private checkInterrupts(): void {
+      if (this.signal?.aborted) {
+         throw new ExecutionAbortedError(this.signal.reason);
+      }
+      if (Date.now() > this.deadline) {
+         throw new ExecutionTimeoutError(`Execution timeout: exceeded ${this.timeoutMs}ms`);
+      }
+   }
+
+   /**
+    * Frame evaluating a node, reporting it to the node hooks when there are any. Without hooks,
+    * small nodes that can't call or suspend are evaluated right away and their value handed back.
+    */
+   private evalNode(node: t.Program, scope: Scope): Frame;
+   private evalNode(node: t.Node | null | undefined, scope: Scope): Frame | Signal;
+   private evalNode(node: t.Node | null | undefined, scope: Scope): Frame | Signal {
+      if (!node) return this.execNode(node, scope);
+      if (this.traceNodes) return this.traceNode(node, scope);
+      if (this.inlineHeight(node) <= MAX_INLINE_HEIGHT && !(this.debugging && INLINE_STATEMENTS.has(node.type))) {
+         return { signal: "value", value: this.evalInline(node, scope) };
+      }
+      return this.execNode(node, scope);
+   }
+
+   /**
+    * Height of a node built only from literals, variables, operators, property reads and writes,
+    * and expression, return, if and block statements, or Infinity when it is taller than `limit`
+    * or needs a frame to call, loop, yield or await
+    */
+   private inlineHeight(node: t.Node, limit = MAX_INLINE_HEIGHT): number {
+      const cached = this.inlineHeights.get(node);
+      if (cached !== undefined) return cached;
+
+      let children: t.Node[] | undefined;
+      switch (node.type) {
+         case "StringLiteral":
+         case "NumericLiteral":
+         case "BooleanLiteral":
+         case "NullLiteral":
+         case "Identifier":
+         case "ThisExpression":
+            children = [];
+            break;
+         case "BinaryExpression":
+         case "LogicalExpression":
+            children = [node.left, node.right];
+            break;
+         case "UnaryExpression":
+            if (node.operator !== "delete") children = [node.argument];
+            break;
+         case "ConditionalExpression":
+            children = [node.test, node.consequent, node.alternate];
+            break;
+         case "MemberExpression":
+            children = node.computed ? [node.object, node.property] : [node.object];
+            break;
+         case "UpdateExpression":
+            children = this.inlineTarget(node.argument);
+            break;
+         case "AssignmentExpression":
+            if (node.operator === "&&=" || node.operator === "||=" || node.operator === "??=") break;
+            children = this.inlineTarget(node.left);
+            children?.unshift(node.right);
+            break;
+         case "ExpressionStatement":
+            children = [node.expression];
+            break;
+         case "ReturnStatement":
+            children = node.argument ? [node.argument] : [];
+            break;
+         case "IfStatement":
+            children = node.alternate ? [node.test, node.consequent, node.alternate] : [node.test, node.consequent];
+            break;
+         case "BlockStatement":
+            children = [...node.body];
+            break;
+      }
+
+      let height = children ? 1 : Infinity;
+      for (const child of children ?? []) {
+         height = Math.max(height, limit > 1 ? 1 + this.inlineHeight(child, limit - 1) : Infinity);
+         if (height > limit) break;
+      }
+      if (height > limit) height = Infinity;
+      // A node too tall for a nested limit may still fit the full one
+      if (height !== Infinity || limit === MAX_INLINE_HEIGHT) this.inlineHeights.set(node, height);
+      return height;
+   }
+
+   /**
+    * Nodes evaluated to find an assignment target, if it is a variable or property
+    */
+   private inlineTarget(target: t.Node): t.Node[] | undefined {
+      if (target.type === "Identifier") return [];
+      if (target.type === "MemberExpression")
+         return target.computed ? [target.object, target.property] : [target.object];
+      return undefined;
+   }
+
+   /**
+    * Evaluate a node accepted by inlineHeight() on the host stack, charging and locating each
+    * node as execNode() would
+    */
+   private evalInline(node: t.Node, scope: Scope): any {
+      if (node.loc) this.location = node.loc;
+      this.currentScope = scope;
+      this.checkOps(this.nodeCost(node));
+
+      switch (node.type) {
+         case "StringLiteral":
+         case "NumericLiteral":
+         case "BooleanLiteral":
+            return node.value;
+         case "NullLiteral":
+            return null;
+         case "Identifier":
+            return this.getVar(scope, node.name);
+         case "ThisExpression":
+            return this.getVar(scope, "this");
+         case "BinaryExpression": {
+            const left = this.evalInline(node.left, scope);
+            return this.binaryOperation(node.operator, left, this.evalInline(node.right, scope));
+         }
+         case "LogicalExpression": {
+            const left = this.evalInline(node.left, scope);
+            if (node.operator === "&&") return left ? this.evalInline(node.right, scope) : left;
+            if (node.operator === "||") return left ? left : this.evalInline(node.right, scope);
+            return left === null || left === undefined ? this.evalInline(node.right, scope) : left;
+         }
+         case "UnaryExpression":
+            return this.unaryOperation(node.operator, this.evalInline(node.argument, scope));
+         case "ConditionalExpression":
+            return this.evalInline(node.test, scope)
+               ? this.evalInline(node.consequent, scope)
+               : this.evalInline(node.alternate, scope);
+         case "MemberExpression": {
+            const obj = this.evalInline(node.object, scope);
+            const prop = node.computed ? this.evalInline(node.property, scope) : (node.property as t.Identifier).name;
+            return this.getMember(obj, prop);
+         }
+         case "UpdateExpression": {
+            const target = node.argument;
+            if (target.type === "Identifier") return this.updateVariable(scope, target.name, node);
+            const member = target as t.MemberExpression;
+            const obj = this.evalInline(member.object, scope);
+            const prop = member.computed
+               ? this.evalInline(member.property, scope)
+               : (member.property as t.Identifier).name;
+            return this.updateMember(obj, prop, node);
+         }
+         case "AssignmentExpression": {
+            const value = this.evalInline(node.right, scope);
+            if (node.left.type === "Identifier") {
+               this.assignVariable(scope, node.left.name, node, value);
+               return value;
+            }
+            const member = node.left as t.MemberExpression;
+            const obj = this.evalInline(member.object, scope);
+            const prop = member.computed
+               ? this.evalInline(member.property, scope)
+               : (member.property as t.Identifier).name;
+            this.assignMember(obj, prop, node, value);
+            return value;
+         }
+         case "ExpressionStatement":
+            return this.evalInline(node.expression, scope);
+         case "ReturnStatement":
+            throw {
+               type: "return",
+               value: node.argument ? this.evalInline(node.argument, scope) : undefined,
+            } as ControlFlow;
+         case "IfStatement":
+            if (this.evalInline(node.test, scope)) return this.evalInline(node.consequent, scope);
+            return node.alternate ? this.evalInline(node.alternate, scope) : undefined;
+         case "BlockStatement": {
+            const blockScope = this.createScope(scope, "block");
+            this.hoistLexicalDeclarations(node.body, blockScope);
+            let result: any;
+            for (const stmt of node.body) {
+               result = this.evalInline(stmt, blockScope);
+            }
+            return result;
+         }
+         default:
+            throw new Error(`Cannot evaluate ${node.type} inline`);
+      }
+   }
+
+   /**
+    * Apply a unary operator other than delete
+    */
+   private unaryOperation(operator: t.UnaryExpression["operator"], arg: any): any {
+      switch (operator) {
+         case "!":
+            return !arg;
+         case "-":
+            return -arg;
+         case "+":
+            return +arg;
+         case "~":
+            return ~arg;
+         case "typeof":
+            return typeof arg;
+         case "void":
+            return undefined;
+         default:
+            throw new Error(`Unknown unary operator: ${operator}`);
+      }
    }
 
    /**
-    * Check operation count to prevent infinite loops
+    * Apply a binary operator, charging strings built by +
     */
-   private checkOps(): void {
-      if (++this.opCount > this.maxOps) {
-         throw new Error("Execution timeout: maximum operations exceeded");
+   private binaryOperation(operator: t.BinaryExpression["operator"], left: any, right: any): any {
+      switch (operator) {
+         case "+": {
+            const sum = left + right;
+            if (typeof sum === "string") this.allocate(stringSize(sum.length));
+            return sum;
+         }
+         case "-":
+            return left - right;
+         case "*":
+            return left * right;
+         case "/":
+            return left / right;
+         case "%":
+            return left % right;
+         case "**":
+            return left ** right;
+         case "==":
+            // biome-ignore lint/suspicious/noDoubleEquals: Intentional loose equality for ES5 spec compliance
+            return left == right;
+         case "!=":
+            // biome-ignore lint/suspicious/noDoubleEquals: Intentional loose equality for ES5 spec compliance
+            return left != right;
+         case "===":
+            return left === right;
+         case "!==":
+            return left !== right;
+         case "<":
+            return left < right;
+         case ">":
+            return left > right;
+         case "<=":
+            return left <= right;
+         case ">=":
+            return left >= right;
+         case "<<":
+            return left << right;
+         case ">>":
+            return left >> right;
+         case ">>>":
+            return left >>> right;
+         case "&":
+            return left & right;
+         case "|":
+            return left | right;
+         case "^":
+            return left ^ right;
+         case "in":
+            return left in right;
+         case "instanceof":
+            return left instanceof right;
+         default:
+            throw new Error(`Unknown binary operator: ${operator}`);
+      }
+   }
+
+   /**
+    * Evaluate a node between the onEnterNode and onExitNode hooks, reporting the first node a
+    * thrown value leaves to onThrow. Break, continue and return complete their node normally.
+    */
+   private *traceNode(node: t.Node, scope: Scope): Frame {
+      this.hooks.onEnterNode?.(node);
+      let value: any;
+      try {
+         value = yield this.execNode(node, scope);
+      } catch (error) {
+         const type = typeof error === "object" && error !== null ? (error as ControlFlow).type : undefined;
+         if (type === "break" || type === "continue" || type === "return") {
+            this.hooks.onExitNode?.(node, undefined, false);
+         } else {
+            if (!this.reportedThrow || this.reportedThrow.error !== error) {
+               this.reportedThrow = { error };
+               this.hooks.onThrow?.(error, node);
+            }
+            this.hooks.onExitNode?.(node, error, true);
+         }
+         throw error;
       }
+      this.hooks.onExitNode?.(node, value, false);
+      return value;
    }
 
    /**
     * Main evaluation function - handles all AST node types
     */
-   private evalNode(node: t.Node | null | undefined, scope: Scope): any {
+   private *execNode(node: t.Node | null | undefined, scope: Scope): Frame {
       if (!node) return undefined;
 
-      this.checkOps();
+      if (node.loc) this.location = node.loc;
+      this.currentScope = scope;
+      this.checkOps(this.nodeCost(node));
+
+      if (this.debugging && PAUSE_TYPES.has(node.type)) {
+         const pause = this.pauseReason(node);
+         if (pause) yield { signal: "pause", pause, scope } as Signal;
+      }
 
       switch (node.type) {
          // Program and statements
@@ -237,22 +2505,23 @@ export class Interpreter {
                result = node.directives[node.directives.length - 1].value.value;
             }
             for (const stmt of node.body) {
-               result = this.evalNode(stmt, scope);
+               result = yield this.evalNode(stmt, scope);
             }
             return result;
          }
 
          case "ExpressionStatement":
-            return this.evalNode(node.expression, scope);
+            return yield this.evalNode(node.expression, scope);
 
          case "DirectiveLiteral":
             return node.value;
 
          case "BlockStatement": {
             const blockScope = this.createScope(scope, "block");
+            this.hoistLexicalDeclarations(node.body, blockScope);
             let result: any;
             for (const stmt of node.body) {
-               result = this.evalNode(stmt, blockScope);
+               result = yield this.evalNode(stmt, blockScope);
             }
             return result;
          }
@@ -260,26 +2529,23 @@ export class Interpreter {
          case "EmptyStatement":
             return undefined;
 
+         case "DebuggerStatement":
+            yield { signal: "pause", pause: this.pauseInfo("debugger", node), scope } as Signal;
+            return undefined;
+
          // Variable declarations
          case "VariableDeclaration": {
+            const kind = node.kind === "var" ? "var" : node.kind === "const" ? "const" : "let";
             for (const decl of node.declarations) {
+               // var is already hoisted, so a var without initializer keeps its current value
+               if (kind === "var" && !decl.init) continue;
+
+               const value = decl.init ? yield this.evalNode(decl.init, scope) : undefined;
                if (decl.id.type === "Identifier") {
-                  if (node.kind === "var") {
-                     // For var, only set the value if there's an initializer
-                     // The variable is already hoisted
-                     if (decl.init) {
-                        const value = this.evalNode(decl.init, scope);
-                        this.declareVar(scope, decl.id.name, value);
-                     }
-                     // If no init, the hoisted value (undefined or previously set) remains
-                  } else {
-                     // let/const always set the value
-                     const value = decl.init ? this.evalNode(decl.init, scope) : undefined;
-                     this.declareLet(scope, decl.id.name, value);
-                  }
+                  if (decl.init) this.nameFunction(decl.init, value, decl.id.name);
+                  this.bindName(scope, decl.id.name, value, kind);
                } else {
-                  // Destructuring (if transpiled, Babel should have converted it)
-                  throw new Error("Destructuring not supported - use Babel to transpile to ES5");
+                  yield this.bindPattern(decl.id, value, scope, kind);
                }
             }
             return undefined;
@@ -304,122 +2570,61 @@ export class Interpreter {
          case "ThisExpression":
             return this.getVar(scope, "this");
 
+         case "MetaProperty":
+            if (node.meta.name === "new" && node.property.name === "target") {
+               return this.getVar(scope, NEW_TARGET);
+            }
+            if (node.meta.name === "import" && node.property.name === "meta") {
+               const record = this.moduleOf(scope);
+               if (!record) throw new SyntaxError("Cannot use 'import.meta' outside a module");
+               return record.meta;
+            }
+            throw new SyntaxError(`${node.meta.name}.${node.property.name} is not supported`);
+
+         case "Super":
+            throw new SyntaxError("'super' keyword unexpected here");
+
          // Expressions
          case "BinaryExpression": {
-            const left = this.evalNode(node.left, scope);
-            const right = this.evalNode(node.right, scope);
-
-            switch (node.operator) {
-               case "+":
-                  return left + right;
-               case "-":
-                  return left - right;
-               case "*":
-                  return left * right;
-               case "/":
-                  return left / right;
-               case "%":
-                  return left % right;
-               case "**":
-                  return left ** right;
-               case "==":
-                  // biome-ignore lint/suspicious/noDoubleEquals: Intentional loose equality for ES5 spec compliance
-                  return left == right;
-               case "!=":
-                  // biome-ignore lint/suspicious/noDoubleEquals: Intentional loose equality for ES5 spec compliance
-                  return left != right;
-               case "===":
-                  return left === right;
-               case "!==":
-                  return left !== right;
-               case "<":
-                  return left < right;
-               case ">":
-                  return left > right;
-               case "<=":
-                  return left <= right;
-               case ">=":
-                  return left >= right;
-               case "<<":
-                  return left << right;
-               case ">>":
-                  return left >> right;
-               case ">>>":
-                  return left >>> right;
-               case "&":
-                  return left & right;
-               case "|":
-                  return left | right;
-               case "^":
-                  return left ^ right;
-               case "in":
-                  return left in right;
-               case "instanceof": {
-                  // Handle instanceof for both native and interpreted functions
-                  if ((right as any).__interpreted) {
-                     // Right side is an interpreted function - check prototype chain
-                     const proto = (right as any).prototype;
-                     if (!proto) return false;
-
-                     let obj = left;
-                     while (obj != null) {
-                        if (obj === proto) return true;
-                        obj = Object.getPrototypeOf(obj);
-                     }
-                     return false;
-                  }
-                  // Native instanceof
-                  return left instanceof right;
-               }
-               default:
-                  throw new Error(`Unknown binary operator: ${node.operator}`);
-            }
+            const left = yield this.evalNode(node.left, scope);
+            return this.binaryOperation(node.operator, left, yield this.evalNode(node.right, scope));
          }
 
          case "LogicalExpression": {
-            const left = this.evalNode(node.left, scope);
+            const left = yield this.evalNode(node.left, scope);
             if (node.operator === "&&") {
-               return left ? this.evalNode(node.right, scope) : left;
+               return left ? yield this.evalNode(node.right, scope) : left;
             }
             if (node.operator === "||") {
-               return left ? left : this.evalNode(node.right, scope);
+               return left ? left : yield this.evalNode(node.right, scope);
+            }
+            if (node.operator === "??") {
+               return left === null || left === undefined ? yield this.evalNode(node.right, scope) : left;
             }
             throw new Error(`Unknown logical operator: ${node.operator}`);
          }
 
          case "UnaryExpression": {
             if (node.operator === "delete") {
+               if (node.argument.type === "OptionalMemberExpression") {
+                  const base = yield this.evalChainLink(node.argument.object, scope);
+                  if (base === SHORT_CIRCUIT || (node.argument.optional && base.value == null)) return true;
+                  const prop = node.argument.computed
+                     ? yield this.evalNode(node.argument.property, scope)
+                     : (node.argument.property as t.Identifier).name;
+                  return delete base.value[prop];
+               }
                if (node.argument.type === "MemberExpression") {
-                  const obj = this.evalNode(node.argument.object, scope);
+                  const obj = yield this.evalNode(node.argument.object, scope);
                   const prop = node.argument.computed
-                     ? this.evalNode(node.argument.property, scope)
+                     ? yield this.evalNode(node.argument.property, scope)
                      : (node.argument.property as t.Identifier).name;
                   return delete obj[prop];
                }
                return true;
             }
 
-            const arg = this.evalNode(node.argument, scope);
-            switch (node.operator) {
-               case "!":
-                  return !arg;
-               case "-":
-                  return -arg;
-               case "+":
-                  return +arg;
-               case "~":
-                  return ~arg;
-               case "typeof":
-                  // Handle interpreted functions
-                  if (arg && (arg as any).__interpreted) {
-                     return "function";
-                  }
-                  return typeof arg;
-               case "void":
-                  return undefined;
-               default:
-                  throw new Error(`Unknown unary operator: ${node.operator}`);
-            }
+            return this.unaryOperation(node.operator, yield this.evalNode(node.argument, scope));
          }
 
          case "UpdateExpression": {
@@ -428,53 +2633,58 @@ export class Interpreter {
             let prop: any;
 
             if (argNode.type === "Identifier") {
-               const oldValue = this.getVar(scope, argNode.name);
-               const newValue = node.operator === "++" ? oldValue + 1 : oldValue - 1;
-               this.setVar(scope, argNode.name, newValue);
-               return node.prefix ? newValue : oldValue;
+               return this.updateVariable(scope, argNode.name, node);
             }
 
             if (argNode.type === "MemberExpression") {
-               obj = this.evalNode(argNode.object, scope);
+               obj = yield this.evalNode(argNode.object, scope);
                prop = argNode.computed
-                  ? this.evalNode(argNode.property, scope)
+                  ? yield this.evalNode(argNode.property, scope)
                   : (argNode.property as t.Identifier).name;
-               const oldValue = obj[prop];
-               const newValue = node.operator === "++" ? oldValue + 1 : oldValue - 1;
-               obj[prop] = newValue;
-               return node.prefix ? newValue : oldValue;
+               return this.updateMember(obj, prop, node);
             }
 
             throw new Error("Invalid update expression target");
          }
 
          case "AssignmentExpression": {
-            const value = this.evalNode(node.right, scope);
+            if (node.operator === "&&=" || node.operator === "||=" || node.operator === "??=") {
+               return yield this.evalLogicalAssignment(node, scope);
+            }
+
+            const value = yield this.evalNode(node.right, scope);
 
             if (node.left.type === "Identifier") {
-               if (node.operator === "=") {
-                  this.setVar(scope, node.left.name, value);
-               } else {
-                  const oldValue = this.getVar(scope, node.left.name);
-                  const newValue = this.applyAssignmentOperator(oldValue, value, node.operator);
-                  this.setVar(scope, node.left.name, newValue);
-               }
+               this.assignVariable(scope, node.left.name, node, value);
+               return value;
+            }
+
+            if (node.left.type === "MemberExpression" && node.left.object.type === "Super") {
+               const prop = node.left.computed
+                  ? yield this.evalNode(node.left.property, scope)
+                  : (node.left.property as t.Identifier).name;
+               const receiver = this.getVar(scope, "this");
+               const base = this.superBase(scope);
+               Reflect.set(
+                  base,
+                  prop,
+                  node.operator === "=" ? value : this.applyAssignmentOperator(receiver[prop], value, node.operator),
+                  receiver,
+               );
                return value;
             }
 
             if (node.left.type === "MemberExpression") {
-               const obj = this.evalNode(node.left.object, scope);
+               const obj = yield this.evalNode(node.left.object, scope);
                const prop = node.left.computed
-                  ? this.evalNode(node.left.property, scope)
+                  ? yield this.evalNode(node.left.property, scope)
                   : (node.left.property as t.Identifier).name;
+               this.assignMember(obj, prop, node, value);
+               return value;
+            }
 
-               if (node.operator === "=") {
-                  // Store value directly (interpreted functions will be handled by CallExpression)
-                  obj[prop] = value;
-               } else {
-                  const oldValue = obj[prop];
-                  obj[prop] = this.applyAssignmentOperator(oldValue, value, node.operator);
-               }
+            if (node.left.type === "ObjectPattern" || node.left.type === "ArrayPattern") {
+               yield this.bindPattern(node.left, value, scope, "assign");
                return value;
             }
 
@@ -484,88 +2694,132 @@ export class Interpreter {
          case "SequenceExpression": {
             let result: any;
             for (const expr of node.expressions) {
-               result = this.evalNode(expr, scope);
+               result = yield this.evalNode(expr, scope);
             }
             return result;
          }
 
          case "ConditionalExpression": {
-            const test = this.evalNode(node.test, scope);
-            return test ? this.evalNode(node.consequent, scope) : this.evalNode(node.alternate, scope);
+            const test = yield this.evalNode(node.test, scope);
+            return test ? yield this.evalNode(node.consequent, scope) : yield this.evalNode(node.alternate, scope);
          }
 
          // Member access
          case "MemberExpression": {
-            const obj = this.evalNode(node.object, scope);
-            const prop = node.computed ? this.evalNode(node.property, scope) : (node.property as t.Identifier).name;
-
-            // Block prototype pollution via __proto__
-            if (prop === "__proto__") {
-               return undefined;
+            if (node.object.type === "Super") {
+               const prop = node.computed
+                  ? yield this.evalNode(node.property, scope)
+                  : (node.property as t.Identifier).name;
+               const base = this.superBase(scope);
+               return this.isBlockedMember(base, prop)
+                  ? undefined
+                  : Reflect.get(base, prop, this.getVar(scope, "this"));
             }
 
-            // Block modification of built-in constructors (but allow user functions)
-            if (prop === "constructor" && obj !== null && obj !== undefined) {
-               const isBuiltIn = [Object, Array, String, Number, Boolean, Function, RegExp, Date, Error].includes(
-                  obj.constructor,
-               );
-               if (isBuiltIn) {
-                  return undefined;
-               }
-            }
+            const obj = yield this.evalNode(node.object, scope);
+            const prop = node.computed
+               ? yield this.evalNode(node.property, scope)
+               : (node.property as t.Identifier).name;
+            return this.getMember(obj, prop);
+         }
 
-            return obj[prop];
+         // Optional chains evaluate to undefined as soon as an optional link is null or undefined
+         case "OptionalMemberExpression":
+         case "OptionalCallExpression": {
+            const reference = yield this.evalOptionalChain(node, scope);
+            return reference === SHORT_CIRCUIT ? undefined : reference.value;
          }
 
          // Function calls
          case "CallExpression": {
-            const callee = this.evalNode(node.callee, scope);
-            const args = node.arguments.map((arg) => this.evalNode(arg, scope));
-
-            // Determine 'this' context
-            let thisContext: any;
-            if (node.callee.type === "MemberExpression") {
-               thisContext = this.evalNode(node.callee.object, scope);
+            // Dynamic import() resolves relative to the module it appears in
+            if (node.callee.type === "Import") {
+               const specifier = yield this.evalNode(node.arguments[0], scope);
+               return this.importModule(specifier, this.moduleOf(scope)?.url);
             }
 
-            // Native function
-            if (typeof callee === "function" && !(callee as any).__interpreted) {
-               // Wrap interpreted function arguments for callbacks
-               const wrappedArgs = args.map((arg) => {
-                  if (arg && (arg as any).__interpreted) {
-                     return (...callArgs: any[]) => this.callFunction(arg, callArgs, scope);
-                  }
-                  return arg;
-               });
-               return thisContext !== undefined ? callee.call(thisContext, ...wrappedArgs) : callee(...wrappedArgs);
+            // Determine 'this' context, evaluating the object of a method call only once
+            if (node.callee.type === "Super") {
+               const args = yield this.evalArguments(node.arguments, scope);
+               const instance = yield this.constructSuper(
+                  this.getVar(scope, ACTIVE_FUNCTION),
+                  args,
+                  this.getVar(scope, NEW_TARGET),
+               );
+               this.initializeThis(scope, instance);
+               return instance;
             }
 
-            // Interpreted function
-            return this.callFunction(callee, args, scope, thisContext);
+            let callee: any;
+            let thisContext: any;
+            if (node.callee.type === "MemberExpression" && node.callee.object.type === "Super") {
+               callee = yield this.evalNode(node.callee, scope);
+               thisContext = this.getVar(scope, "this");
+            } else if (node.callee.type === "MemberExpression") {
+               this.checkOps(this.nodeCost(node.callee));
+               thisContext = yield this.evalNode(node.callee.object, scope);
+               const prop = node.callee.computed
+                  ? yield this.evalNode(node.callee.property, scope)
+                  : (node.callee.property as t.Identifier).name;
+               callee = this.getMember(thisContext, prop);
+            } else if (node.callee.type === "OptionalMemberExpression") {
+               // (a?.b)() still calls b with a as this
+               const reference = yield this.evalOptionalChain(node.callee, scope);
+               if (reference !== SHORT_CIRCUIT) {
+                  callee = reference.value;
+                  thisContext = reference.thisValue;
+               }
+            } else {
+               callee = yield this.evalNode(node.callee, scope);
+            }
+            const args = yield this.evalArguments(node.arguments, scope);
+            // Locate the call itself rather than its last argument, for errors and the callee's stack entry
+            if (node.loc) this.location = node.loc;
+            return yield this.callValue(callee, thisContext, args);
          }
 
          case "NewExpression": {
-            const constructorFunc = this.evalNode(node.callee, scope);
-            const args = node.arguments.map((arg) => this.evalNode(arg, scope));
+            const constructorFunc = yield this.evalNode(node.callee, scope);
+            const args = yield this.evalArguments(node.arguments, scope);
+            if (node.loc) this.location = node.loc;
 
-            // Handle interpreted functions used as constructors
-            if (constructorFunc && (constructorFunc as any).__interpreted) {
-               // Create new instance with prototype chain
-               const instance = Object.create((constructorFunc as any).prototype || {});
-               // Call constructor with instance as 'this'
-               const result = this.callFunction(constructorFunc, args, scope, instance);
-               // If constructor returns an object, use that; otherwise use instance
-               return result !== undefined && typeof result === "object" ? result : instance;
+            // Interpreted constructors run on the current stack
+            if (this.functions.has(constructorFunc)) {
+               return yield this.constructFunction(constructorFunc, args, constructorFunc);
             }
 
-            // Native constructor - wrap interpreted function arguments
-            const wrappedArgs = args.map((arg) => {
-               if (arg && (arg as any).__interpreted) {
-                  return (...callArgs: any[]) => this.callFunction(arg, callArgs, scope);
-               }
-               return arg;
-            });
-            return new constructorFunc(...wrappedArgs);
+            return this.callHost(constructorFunc, undefined, args, true);
+         }
+
+         case "TemplateLiteral": {
+            let result = node.quasis[0].value.cooked ?? "";
+            for (let i = 0; i < node.expressions.length; i++) {
+               const value = yield this.evalNode(node.expressions[i], scope);
+               result += `${value}${node.quasis[i + 1].value.cooked ?? ""}`;
+            }
+            this.allocate(stringSize(result.length));
+            return result;
+         }
+
+         case "TaggedTemplateExpression": {
+            let tag: any;
+            let thisContext: any;
+            if (node.tag.type === "MemberExpression") {
+               this.checkOps(this.nodeCost(node.tag));
+               thisContext = yield this.evalNode(node.tag.object, scope);
+               const prop = node.tag.computed
+                  ? yield this.evalNode(node.tag.property, scope)
+                  : (node.tag.property as t.Identifier).name;
+               tag = this.getMember(thisContext, prop);
+            } else {
+               tag = yield this.evalNode(node.tag, scope);
+            }
+            const args: any[] = [this.templateObject(node.quasi)];
+            for (const expression of node.quasi.expressions) {
+               args.push(yield this.evalNode(expression, scope));
+            }
+            if (node.loc) this.location = node.loc;
+            return yield this.callValue(tag, thisContext, args);
          }
 
          // Object and array literals
@@ -574,22 +2828,53 @@ export class Interpreter {
             for (const prop of node.properties) {
                if (prop.type === "ObjectProperty") {
                   const key =
-                     prop.key.type === "Identifier" && !prop.computed ? prop.key.name : this.evalNode(prop.key, scope);
-                  obj[key] = this.evalNode(prop.value, scope);
+                     prop.key.type === "Identifier" && !prop.computed
+                        ? prop.key.name
+                        : yield this.evalNode(prop.key, scope);
+                  const value = yield this.evalNode(prop.value, scope);
+                  this.nameFunction(prop.value, value, key);
+                  obj[key] = value;
                } else if (prop.type === "SpreadElement") {
-                  const spreadObj = this.evalNode(prop.argument, scope);
-                  Object.assign(obj, spreadObj);
+                  this.copyDataProperties(obj, yield this.evalNode(prop.argument, scope));
                } else if (prop.type === "ObjectMethod") {
                   const key =
-                     prop.key.type === "Identifier" && !prop.computed ? prop.key.name : this.evalNode(prop.key, scope);
-                  obj[key] = this.createFunction(prop, scope);
+                     prop.key.type === "Identifier" && !prop.computed
+                        ? prop.key.name
+                        : yield this.evalNode(prop.key, scope);
+                  if (prop.kind === "get" || prop.kind === "set") {
+                     // Accessors merge with an accessor of the same key defined earlier in the literal
+                     const accessor = this.createFunction(prop, scope, `${prop.kind} ${this.propertyName(key)}`, obj);
+                     const existing = Object.getOwnPropertyDescriptor(obj, key);
+                     Object.defineProperty(obj, key, {
+                        get: prop.kind === "get" ? accessor : existing?.get,
+                        set: prop.kind === "set" ? accessor : existing?.set,
+                        enumerable: true,
+                        configurable: true,
+                     });
+                  } else {
+                     obj[key] = this.createFunction(prop, scope, this.propertyName(key), obj);
+                  }
                }
             }
+            // Spread properties were charged per key as they were copied
+            const declared = node.properties.filter((prop) => prop.type !== "SpreadElement").length;
+            this.allocate(OBJECT_SIZE + declared * PROPERTY_SIZE);
+            this.sandboxObjects?.add(obj);
             return obj;
          }
 
          case "ArrayExpression": {
-            return node.elements.map((el) => (el ? this.evalNode(el, scope) : undefined));
+            const arr: any[] = [];
+            for (const el of node.elements) {
+               if (el?.type === "SpreadElement") {
+                  for (const value of yield this.spreadValues(yield this.evalNode(el.argument, scope))) arr.push(value);
+               } else {
+                  arr.push(el ? yield this.evalNode(el, scope) : undefined);
+               }
+            }
+            this.allocate(arraySize(arr.length));
+            this.sandboxObjects?.add(arr);
+            return arr;
          }
 
          case "SpreadElement": {
@@ -602,32 +2887,82 @@ export class Interpreter {
             return undefined;
          }
 
+         // Modules: imports and exports are bound when the module is linked
+         case "ImportDeclaration":
+         case "ExportAllDeclaration":
+            if (!this.moduleOf(scope)) {
+               throw new SyntaxError("Cannot use import or export statements outside a module");
+            }
+            return undefined;
+
+         case "ExportNamedDeclaration":
+            if (!this.moduleOf(scope)) {
+               throw new SyntaxError("Cannot use import or export statements outside a module");
+            }
+            return node.declaration ? yield this.evalNode(node.declaration, scope) : undefined;
+
+         case "ExportDefaultDeclaration": {
+            if (!this.moduleOf(scope)) {
+               throw new SyntaxError("Cannot use import or export statements outside a module");
+            }
+            const declaration = node.declaration;
+            if (declaration.type === "FunctionDeclaration") return undefined;
+            if (declaration.type === "ClassDeclaration" && declaration.id) {
+               return yield this.evalNode(declaration, scope);
+            }
+            const value =
+               declaration.type === "ClassDeclaration"
+                  ? yield this.createClass(declaration, scope)
+                  : yield this.evalNode(declaration, scope);
+            this.nameFunction(declaration, value, "default");
+            this.declareLet(scope, DEFAULT_EXPORT, value);
+            return undefined;
+         }
+
+         case "ImportExpression": {
+            const specifier = yield this.evalNode(node.source, scope);
+            return this.importModule(specifier, this.moduleOf(scope)?.url);
+         }
+
          case "FunctionExpression":
          case "ArrowFunctionExpression": {
             return this.createFunction(node, scope);
          }
 
+         // Classes
+         case "ClassDeclaration": {
+            const cls = yield this.createClass(node, scope);
+            if (node.id) this.declareLet(scope, node.id.name, cls);
+            return undefined;
+         }
+
+         case "ClassExpression":
+            return yield this.createClass(node, scope);
+
          // Control flow
          case "IfStatement": {
-            const test = this.evalNode(node.test, scope);
+            const test = yield this.evalNode(node.test, scope);
             if (test) {
-               return this.evalNode(node.consequent, scope);
+               return yield this.evalNode(node.consequent, scope);
             }
             if (node.alternate) {
-               return this.evalNode(node.alternate, scope);
+               return yield this.evalNode(node.alternate, scope);
             }
             return undefined;
          }
 
          case "SwitchStatement": {
-            const discriminant = this.evalNode(node.discriminant, scope);
+            const discriminant = yield this.evalNode(node.discriminant, scope);
             const switchScope = this.createScope(scope, "block");
+            for (const cas of node.cases) {
+               this.hoistLexicalDeclarations(cas.consequent, switchScope);
+            }
             let matched = false;
             let result: any;
 
             for (const cas of node.cases) {
                if (!matched && cas.test) {
-                  const testValue = this.evalNode(cas.test, switchScope);
+                  const testValue = yield this.evalNode(cas.test, switchScope);
                   matched = discriminant === testValue;
                } else if (!matched && !cas.test) {
                   // Default case
@@ -637,7 +2972,7 @@ export class Interpreter {
                if (matched) {
                   try {
                      for (const stmt of cas.consequent) {
-                        result = this.evalNode(stmt, switchScope);
+                        result = yield this.evalNode(stmt, switchScope);
                      }
                   } catch (e) {
                      if (typeof e === "object" && e !== null && (e as ControlFlow).type === "break") {
@@ -660,15 +2995,15 @@ export class Interpreter {
 
          case "WhileStatement": {
             let result: any;
-            while (this.evalNode(node.test, scope)) {
+            while (yield this.evalNode(node.test, scope)) {
                try {
-                  result = this.evalNode(node.body, scope);
+                  result = yield this.evalNode(node.body, scope);
                } catch (e) {
                   if (typeof e === "object" && e !== null) {
                      if ((e as ControlFlow).type === "break") {
                         if (!(e as ControlFlow & { label?: string }).label) break;
                      } else if ((e as ControlFlow).type === "continue") {
-                        if (!(e as ControlFlow & { label?: string }).label) continue;
+                        if (this.isLoopContinue((e as ControlFlow & { label?: string }).label, node)) continue;
                      }
                   }
                   throw e;
@@ -681,75 +3016,77 @@ export class Interpreter {
             let result: any;
             do {
                try {
-                  result = this.evalNode(node.body, scope);
+                  result = yield this.evalNode(node.body, scope);
                } catch (e) {
                   if (typeof e === "object" && e !== null) {
                      if ((e as ControlFlow).type === "break") {
                         if (!(e as ControlFlow & { label?: string }).label) break;
                      } else if ((e as ControlFlow).type === "continue") {
-                        if (!(e as ControlFlow & { label?: string }).label) continue;
+                        if (this.isLoopContinue((e as ControlFlow & { label?: string }).label, node)) continue;
                      }
                   }
                   throw e;
                }
-            } while (this.evalNode(node.test, scope));
+            } while (yield this.evalNode(node.test, scope));
             return result;
          }
 
          case "ForStatement": {
-            const forScope = this.createScope(scope, "block");
-            if (node.init) this.evalNode(node.init, forScope);
+            let forScope = this.createScope(scope, "block");
+            if (node.init) yield this.evalNode(node.init, forScope);
+
+            // let/const declarations get a fresh copy per iteration, so closures capture each value
+            const perIteration = node.init?.type === "VariableDeclaration" && node.init.kind !== "var";
+            if (perIteration) forScope = this.copyScope(forScope);
 
             let result: any;
-            while (!node.test || this.evalNode(node.test, forScope)) {
+            while (!node.test || (yield this.evalNode(node.test, forScope))) {
                try {
-                  result = this.evalNode(node.body, forScope);
+                  result = yield this.evalNode(node.body, forScope);
                } catch (e) {
                   if (typeof e === "object" && e !== null) {
                      if ((e as ControlFlow).type === "break") {
                         if (!(e as ControlFlow & { label?: string }).label) break;
                      } else if ((e as ControlFlow).type === "continue") {
-                        if (!(e as ControlFlow & { label?: string }).label) {
-                           if (node.update) this.evalNode(node.update, forScope);
+                        if (this.isLoopContinue((e as ControlFlow & { label?: string }).label, node)) {
+                           if (perIteration) forScope = this.copyScope(forScope);
+                           if (node.update) yield this.evalNode(node.update, forScope);
                            continue;
                         }
                      }
                   }
                   throw e;
                }
-               if (node.update) this.evalNode(node.update, forScope);
+               if (perIteration) forScope = this.copyScope(forScope);
+               if (node.update) yield this.evalNode(node.update, forScope);
             }
             return result;
          }
 
          case "ForInStatement": {
             const forScope = this.createScope(scope, "block");
-            const obj = this.evalNode(node.right, forScope);
+            const obj = yield this.evalNode(node.right, forScope);
             let result: any;
 
             for (const key in obj) {
-               // Declare loop variable
+               // Declare loop variable; let/const get a fresh binding per iteration
+               let iterationScope = forScope;
                if (node.left.type === "VariableDeclaration") {
-                  const decl = node.left.declarations[0];
-                  if (decl.id.type === "Identifier") {
-                     if (node.left.kind === "var") {
-                        this.declareVar(forScope, decl.id.name, key);
-                     } else {
-                        this.declareLet(forScope, decl.id.name, key);
-                     }
-                  }
-               } else if (node.left.type === "Identifier") {
-                  this.setVar(forScope, node.left.name, key);
+                  const kind = node.left.kind === "var" ? "var" : node.left.kind === "const" ? "const" : "let";
+                  if (kind !== "var") iterationScope = this.createScope(forScope, "block");
+                  yield this.bindPattern(node.left.declarations[0].id, key, iterationScope, kind);
+               } else {
+                  yield this.bindPattern(node.left, key, forScope, "assign");
                }
 
                try {
-                  result = this.evalNode(node.body, forScope);
+                  result = yield this.evalNode(node.body, iterationScope);
                } catch (e) {
                   if (typeof e === "object" && e !== null) {
                      if ((e as ControlFlow).type === "break") {
                         if (!(e as ControlFlow & { label?: string }).label) break;
                      } else if ((e as ControlFlow).type === "continue") {
-                        if (!(e as ControlFlow & { label?: string }).label) continue;
+                        if (this.isLoopContinue((e as ControlFlow & { label?: string }).label, node)) continue;
                      }
                   }
                   throw e;
@@ -758,6 +3095,57 @@ export class Interpreter {
             return result;
          }
 
+         case "ForOfStatement": {
+            const forScope = this.createScope(scope, "block");
+            const iterable = yield this.evalNode(node.right, forScope);
+
+            // for await uses Symbol.asyncIterator, falling back to awaiting a sync iterator's values
+            const asyncMethod = node.await ? iterable?.[Symbol.asyncIterator] : undefined;
+            const async = asyncMethod !== undefined && asyncMethod !== null;
+            const iterator = async ? yield this.callValue(asyncMethod, iterable, []) : yield this.getIterator(iterable);
+            if (async && (iterator === null || typeof iterator !== "object")) {
+               throw new TypeError("Result of the Symbol.asyncIterator method is not an object");
+            }
+            let result: any;
+
+            for (
+               let step = yield this.resumeIterator(iterator, "next", undefined, async);
+               !step.done;
+               step = yield this.resumeIterator(iterator, "next", undefined, async)
+            ) {
+               try {
+                  const value =
+                     node.await && !async ? yield { signal: "await", value: step.value } as Signal : step.value;
+
+                  // Declare loop variable; let/const get a fresh binding per iteration
+                  let iterationScope = forScope;
+                  if (node.left.type === "VariableDeclaration") {
+                     const kind = node.left.kind === "var" ? "var" : node.left.kind === "const" ? "const" : "let";
+                     if (kind !== "var") iterationScope = this.createScope(forScope, "block");
+                     yield this.bindPattern(node.left.declarations[0].id, value, iterationScope, kind);
+                  } else {
+                     yield this.bindPattern(node.left, value, forScope, "assign");
+                  }
+
+                  result = yield this.evalNode(node.body, iterationScope);
+               } catch (e) {
+                  const cf = typeof e === "object" && e !== null ? (e as ControlFlow & { label?: string }) : undefined;
+                  if (cf?.type === "continue" && this.isLoopContinue(cf.label, node)) continue;
+                  if (cf?.type === "break" && !cf.label) {
+                     yield this.closeIterator(iterator, false, async);
+                     return result;
+                  }
+                  // Leaving the loop early closes the iterator, unless the host interrupted execution
+                  if (!(e instanceof ExecutionInterruptedError)) {
+                     const controlFlow = cf?.type === "break" || cf?.type === "continue" || cf?.type === "return";
+                     yield this.closeIterator(iterator, !controlFlow, async);
+                  }
+                  throw e;
+               }
+            }
+            return result;
+         }
+
          case "BreakStatement": {
             throw { type: "break", label: node.label?.name } as ControlFlow;
          }
@@ -769,207 +3157,846 @@ export class Interpreter {
          case "ReturnStatement": {
             throw {
                type: "return",
-               value: node.argument ? this.evalNode(node.argument, scope) : undefined,
+               value: node.argument ? yield this.evalNode(node.argument, scope) : undefined,
             } as ControlFlow;
          }
 
          case "LabeledStatement": {
+            // A labeled continue goes to the next iteration of the loop the label names
+            let target: t.Statement = node.body;
+            while (target.type === "LabeledStatement") target = target.body;
+            if (LOOP_TYPES.has(target.type)) {
+               const labels = this.loopLabels.get(target) ?? new Set<string>();
+               labels.add(node.label.name);
+               this.loopLabels.set(target, labels);
+            }
+
             try {
-               return this.evalNode(node.body, scope);
+               return yield this.evalNode(node.body, scope);
             } catch (e) {
                if (typeof e === "object" && e !== null) {
                   const cf = e as ControlFlow & { label?: string };
-                  if ((cf.type === "break" || cf.type === "continue") && cf.label === node.label.name) {
-                     if (cf.type === "break") return undefined;
-                     // For continue with label, re-throw without label
-                     throw { type: "continue" } as ControlFlow;
-                  }
+                  if (cf.type === "break" && cf.label === node.label.name) return undefined;
                }
                throw e;
             }
          }
 
-         // Exception handling
-         case "ThrowStatement": {
-            const error = this.evalNode(node.argument, scope);
-            throw error;
-         }
+         // Async functions
+         case "AwaitExpression": {
+            const value = yield this.evalNode(node.argument, scope);
+            return yield { signal: "await", value } as Signal;
+         }
+
+         // Generators
+         case "YieldExpression": {
+            const value = node.argument ? yield this.evalNode(node.argument, scope) : undefined;
+            if (node.delegate) {
+               return yield this.delegateYield(value);
+            }
+            return yield { signal: "yield", value } as Signal;
+         }
+
+         // Exception handling
+         case "ThrowStatement": {
+            const error = yield this.evalNode(node.argument, scope);
+            throw error;
+         }
+
+         case "TryStatement": {
+            let result: any;
+            let caughtError: any = null;
+            let interrupted = false;
+
+            try {
+               result = yield this.evalNode(node.block, scope);
+            } catch (error) {
+               // Host interrupts (timeouts, aborts) skip both the catch and the finally handler
+               if (error instanceof ExecutionInterruptedError) {
+                  interrupted = true;
+                  throw error;
+               }
+
+               // Control flow statements (break/continue/return) should not be caught by user code
+               // Re-throw them immediately without executing the catch handler
+               if (
+                  typeof error === "object" &&
+                  error !== null &&
+                  ((error as ControlFlow).type === "break" ||
+                     (error as ControlFlow).type === "continue" ||
+                     (error as ControlFlow).type === "return")
+               ) {
+                  throw error;
+               }
+
+               caughtError = error;
+
+               if (node.handler) {
+                  // Rethrowing the caught value is a new throw
+                  this.reportedThrow = undefined;
+                  const catchScope = this.createScope(scope, "block");
+                  try {
+                     if (node.handler.param) {
+                        yield this.bindPattern(node.handler.param, error, catchScope, "let");
+                     }
+                     result = yield this.evalNode(node.handler.body, catchScope);
+                     caughtError = null;
+                  } catch (catchError) {
+                     interrupted = catchError instanceof ExecutionInterruptedError;
+                     caughtError = catchError;
+                  }
+               }
+            } finally {
+               if (node.finalizer && !interrupted) {
+                  yield this.evalNode(node.finalizer, scope);
+               }
+
+               if (caughtError !== null) {
+                  // biome-ignore lint/correctness/noUnsafeFinally: valid here
+                  throw caughtError;
+               }
+            }
+
+            return result;
+         }
+
+         // With statement (deprecated but part of ES5)
+         case "WithStatement": {
+            throw new Error("with statement is not supported");
+         }
+
+         // Directives (e.g., "use strict")
+         case "Directive":
+            return undefined;
+
+         default:
+            throw new Error(`Unhandled node type: ${node.type}`);
+      }
+   }
+
+   /**
+    * Evaluate a link of an optional chain (a?.b.c, a?.b(), a.b?.()) to a reference,
+    * or SHORT_CIRCUIT once an optional link finds null or undefined
+    */
+   private *evalOptionalChain(
+      node: t.OptionalMemberExpression | t.OptionalCallExpression,
+      scope: Scope,
+   ): Generator<any, ChainReference | typeof SHORT_CIRCUIT, any> {
+      if (node.type === "OptionalMemberExpression") {
+         const base = yield this.evalChainLink(node.object, scope);
+         if (base === SHORT_CIRCUIT || (node.optional && base.value == null)) return SHORT_CIRCUIT;
+         const prop = node.computed ? yield this.evalNode(node.property, scope) : (node.property as t.Identifier).name;
+         return { value: this.getMember(base.value, prop), thisValue: base.value };
+      }
+
+      const callee = yield this.evalChainLink(node.callee, scope);
+      if (callee === SHORT_CIRCUIT || (node.optional && callee.value == null)) return SHORT_CIRCUIT;
+      const args = yield this.evalArguments(node.arguments, scope);
+      if (node.loc) this.location = node.loc;
+      return { value: yield this.callValue(callee.value, callee.thisValue, args) };
+   }
+
+   /**
+    * Evaluate the object or callee of an optional chain link, keeping the receiver of member accesses
+    */
+   private *evalChainLink(
+      node: t.Expression,
+      scope: Scope,
+   ): Generator<any, ChainReference | typeof SHORT_CIRCUIT, any> {
+      if (node.type === "OptionalMemberExpression" || node.type === "OptionalCallExpression") {
+         return yield this.evalOptionalChain(node, scope);
+      }
+      if (node.type === "MemberExpression" && node.object.type === "Super") {
+         return { value: yield this.evalNode(node, scope), thisValue: this.getVar(scope, "this") };
+      }
+      if (node.type === "MemberExpression") {
+         this.checkOps(this.nodeCost(node));
+         const obj = yield this.evalNode(node.object, scope);
+         const prop = node.computed ? yield this.evalNode(node.property, scope) : (node.property as t.Identifier).name;
+         return { value: this.getMember(obj, prop), thisValue: obj };
+      }
+      return { value: yield this.evalNode(node, scope) };
+   }
+
+   /**
+    * Logical assignment (a &&= b, a ||= b, a ??= b): the right side is only evaluated,
+    * and the target only assigned, when the operator does not short-circuit
+    */
+   private *evalLogicalAssignment(node: t.AssignmentExpression, scope: Scope): Frame {
+      const left = node.left;
+      let read: () => any;
+      let write: (value: any) => void;
+
+      if (left.type === "Identifier") {
+         read = () => this.getVar(scope, left.name);
+         write = (value) => this.setVar(scope, left.name, value);
+      } else if (left.type === "MemberExpression") {
+         const obj = left.object.type === "Super" ? undefined : yield this.evalNode(left.object, scope);
+         const prop = left.computed ? yield this.evalNode(left.property, scope) : (left.property as t.Identifier).name;
+         if (left.object.type === "Super") {
+            const receiver = this.getVar(scope, "this");
+            const base = this.superBase(scope);
+            read = () => Reflect.get(base, prop, receiver);
+            write = (value) => Reflect.set(base, prop, value, receiver);
+         } else {
+            read = () => this.getMember(obj, prop);
+            write = (value) => {
+               if (this.sandboxObjects) this.reportPropertyAccess(obj, prop, "set");
+               this.setMember(obj, prop, value);
+            };
+         }
+      } else {
+         throw new Error("Invalid assignment target");
+      }
+
+      const current = read();
+      const assign =
+         node.operator === "&&="
+            ? current
+            : node.operator === "||="
+              ? !current
+              : current === null || current === undefined;
+      if (!assign) return current;
+
+      const value = yield this.evalNode(node.right, scope);
+      if (left.type === "Identifier") this.nameFunction(node.right, value, left.name);
+      write(value);
+      return value;
+   }
+
+   /**
+    * Apply ++ or -- to a variable, returning the update expression's value
+    */
+   private updateVariable(scope: Scope, name: string, node: t.UpdateExpression): any {
+      const oldValue = this.getVar(scope, name);
+      const newValue = node.operator === "++" ? oldValue + 1 : oldValue - 1;
+      this.setVar(scope, name, newValue);
+      return node.prefix ? newValue : oldValue;
+   }
+
+   /**
+    * Apply ++ or -- to a property, returning the update expression's value
+    */
+   private updateMember(obj: any, prop: any, node: t.UpdateExpression): any {
+      if (this.sandboxObjects) this.reportPropertyAccess(obj, prop, "get");
+      const oldValue = obj[prop];
+      const newValue = node.operator === "++" ? oldValue + 1 : oldValue - 1;
+      if (this.sandboxObjects) this.reportPropertyAccess(obj, prop, "set");
+      this.setMember(obj, prop, newValue);
+      return node.prefix ? newValue : oldValue;
+   }
+
+   /**
+    * Assign the evaluated right-hand side of an = or arithmetic assignment to a variable
+    */
+   private assignVariable(scope: Scope, name: string, node: t.AssignmentExpression, value: any): void {
+      if (node.operator === "=") {
+         this.nameFunction(node.right, value, name);
+         this.setVar(scope, name, value);
+      } else {
+         const oldValue = this.getVar(scope, name);
+         this.setVar(scope, name, this.applyAssignmentOperator(oldValue, value, node.operator));
+      }
+   }
+
+   /**
+    * Assign the evaluated right-hand side of an = or arithmetic assignment to a property
+    */
+   private assignMember(obj: any, prop: any, node: t.AssignmentExpression, value: any): void {
+      if (node.operator === "=") {
+         if (this.sandboxObjects) this.reportPropertyAccess(obj, prop, "set");
+         this.setMember(obj, prop, value);
+      } else {
+         if (this.sandboxObjects) this.reportPropertyAccess(obj, prop, "get");
+         const oldValue = obj[prop];
+         if (this.sandboxObjects) this.reportPropertyAccess(obj, prop, "set");
+         this.setMember(obj, prop, this.applyAssignmentOperator(oldValue, value, node.operator));
+      }
+   }
+
+   /**
+    * Apply compound assignment operators
+    */
+   private applyAssignmentOperator(left: any, right: any, operator: string): any {
+      switch (operator) {
+         case "+=": {
+            const sum = left + right;
+            if (typeof sum === "string") this.allocate(stringSize(sum.length));
+            return sum;
+         }
+         case "-=":
+            return left - right;
+         case "*=":
+            return left * right;
+         case "/=":
+            return left / right;
+         case "%=":
+            return left % right;
+         case "**=":
+            return left ** right;
+         case "<<=":
+            return left << right;
+         case ">>=":
+            return left >> right;
+         case ">>>=":
+            return left >>> right;
+         case "&=":
+            return left & right;
+         case "|=":
+            return left | right;
+         case "^=":
+            return left ^ right;
+         default:
+            throw new Error(`Unknown assignment operator: ${operator}`);
+      }
+   }
+
+   /**
+    * Create an interpreted function. It is represented by a genuine host function, so it can be
+    * called from anywhere a function is expected: returned values, host object properties,
+    * nested callback options, accessors and event listeners.
+    */
+   private createFunction(node: FunctionNode, closureScope: Scope, name?: string, homeObject?: object): HostFunction {
+      if (node.async && node.generator) {
+         throw new SyntaxError("Async generator functions are not supported");
+      }
+      this.allocate(FUNCTION_SIZE);
+      const bindingName = "id" in node && node.id ? node.id.name : undefined;
+      const func: InterpretedFunction = {
+         node,
+         params: node.params,
+         body: node.body,
+         closure: closureScope,
+         name: bindingName,
+         generator: node.generator,
+         async: node.async,
+         arrow: node.type === "ArrowFunctionExpression",
+         // Arrow functions, generators, async functions and methods are not constructors
+         constructable:
+            (node.type === "FunctionDeclaration" || node.type === "FunctionExpression") &&
+            !node.generator &&
+            !node.async,
+         homeObject,
+      };
+
+      const fn = this.wrapFunction(func, name ?? bindingName ?? "", this.expectedArgumentCount(node.params));
+      if (func.generator) {
+         Object.defineProperty(fn, "prototype", { value: Object.create(this.generatorPrototype), writable: true });
+      }
+      if (this.sandboxObjects && fn.prototype) this.sandboxObjects.add(fn.prototype);
+      return fn;
+   }
+
+   /**
+    * Function length: the number of parameters before the first default or rest parameter
+    */
+   private expectedArgumentCount(params: FunctionNode["params"]): number {
+      let length = 0;
+      while (
+         length < params.length &&
+         params[length].type !== "AssignmentPattern" &&
+         params[length].type !== "RestElement"
+      ) {
+         length++;
+      }
+      return length;
+   }
+
+   /**
+    * Evaluate a class declaration or expression to its constructor
+    */
+   private *createClass(node: t.ClassDeclaration | t.ClassExpression, scope: Scope): Frame {
+      const classScope = this.createScope(scope, "block");
+      const className = node.id?.name;
+      if (className) {
+         classScope.vars[className] = UNINITIALIZED;
+      }
+
+      let protoParent: object | null = Object.prototype;
+      let constructorParent: object = this.functionPrototype;
+      if (node.superClass) {
+         const parent = yield this.evalNode(node.superClass, classScope);
+         if (parent === null) {
+            protoParent = null;
+         } else {
+            if (typeof parent !== "function" || this.functions.get(parent)?.constructable === false) {
+               throw new TypeError(`Class extends value ${String(parent)} is not a constructor or null`);
+            }
+            protoParent = parent.prototype;
+            if (protoParent !== null && typeof protoParent !== "object" && typeof protoParent !== "function") {
+               throw new TypeError(`Class extends value does not have valid prototype property ${String(protoParent)}`);
+            }
+            constructorParent = parent;
+         }
+      }
+
+      const proto = Object.create(protoParent);
+      this.sandboxObjects?.add(proto);
+      const constructorNode = node.body.body.find(
+         (member): member is t.ClassMethod => member.type === "ClassMethod" && member.kind === "constructor",
+      );
+      const classInfo: ClassInfo = {
+         derived: !!node.superClass,
+         implicitConstructor: !constructorNode,
+         fields: [],
+         scope: classScope,
+      };
+
+      this.allocate(FUNCTION_SIZE + OBJECT_SIZE);
+      const ctor = this.wrapFunction(
+         {
+            node,
+            params: constructorNode ? constructorNode.params : [],
+            body: constructorNode ? constructorNode.body : EMPTY_BODY,
+            closure: classScope,
+            arrow: false,
+            constructable: true,
+            homeObject: proto,
+            classInfo,
+         },
+         className ?? "",
+         constructorNode ? this.expectedArgumentCount(constructorNode.params) : 0,
+      );
+      Object.setPrototypeOf(ctor, constructorParent);
+      Object.defineProperty(ctor, "prototype", { value: proto, writable: false });
+      Object.defineProperty(proto, "constructor", { value: ctor, writable: true, configurable: true });
+
+      // Methods are defined right away; static fields and blocks run once the class binding exists
+      const staticInitializers: { key?: PropertyKey; value?: t.Expression | null; block?: t.StaticBlock }[] = [];
+      for (const member of node.body.body) {
+         if (member.type === "StaticBlock") {
+            staticInitializers.push({ block: member });
+            continue;
+         }
+         if (member.type !== "ClassMethod" && member.type !== "ClassProperty") {
+            throw new SyntaxError(`${member.type} is not supported`);
+         }
+         if (member.type === "ClassMethod" && member.kind === "constructor") {
+            continue;
+         }
+
+         const key =
+            member.key.type === "Identifier" && !member.computed
+               ? member.key.name
+               : yield this.evalNode(member.key, classScope);
+
+         if (member.type === "ClassProperty") {
+            if (member.static) staticInitializers.push({ key, value: member.value });
+            else classInfo.fields.push({ key, value: member.value });
+            continue;
+         }
+
+         const target = member.static ? ctor : proto;
+         if (member.kind === "get" || member.kind === "set") {
+            const accessor = this.createFunction(
+               member,
+               classScope,
+               `${member.kind} ${this.propertyName(key)}`,
+               target,
+            );
+            const existing = Object.getOwnPropertyDescriptor(target, key);
+            Object.defineProperty(target, key, {
+               get: member.kind === "get" ? accessor : existing?.get,
+               set: member.kind === "set" ? accessor : existing?.set,
+               enumerable: false,
+               configurable: true,
+            });
+         } else {
+            Object.defineProperty(target, key, {
+               value: this.createFunction(member, classScope, this.propertyName(key), target),
+               writable: true,
+               enumerable: false,
+               configurable: true,
+            });
+         }
+      }
+
+      if (className) {
+         this.declareLet(classScope, className, ctor, true);
+      }
+
+      for (const { key, value, block } of staticInitializers) {
+         const initScope = this.createInitializerScope(classScope, ctor, ctor);
+         if (block) {
+            this.hoistDeclarations(block.body, initScope);
+            for (const stmt of block.body) {
+               yield this.evalNode(stmt, initScope);
+            }
+         } else {
+            yield this.defineField(ctor, key as PropertyKey, value, initScope);
+         }
+      }
+
+      return ctor;
+   }
+
+   /**
+    * Scope of field initializers and static blocks: `this` is the instance or class
+    */
+   private createInitializerScope(classScope: Scope, thisValue: any, homeObject: object): Scope {
+      const scope = this.createScope(classScope, "function");
+      scope.vars.this = thisValue;
+      scope.vars[HOME_OBJECT] = homeObject;
+      scope.vars[NEW_TARGET] = undefined;
+      return scope;
+   }
+
+   /**
+    * Evaluate a field initializer and define the field on its target
+    */
+   private *defineField(
+      target: object,
+      key: PropertyKey,
+      valueNode: t.Expression | null | undefined,
+      initScope: Scope,
+   ): Frame {
+      const value = valueNode ? yield this.evalNode(valueNode, initScope) : undefined;
+      if (valueNode) this.nameFunction(valueNode, value, key);
+      Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+      this.allocate(PROPERTY_SIZE);
+   }
+
+   /**
+    * Define a class's instance fields on a freshly constructed instance
+    */
+   private *initializeFields(ctor: HostFunction, instance: object): Frame {
+      const func = this.functions.get(ctor) as InterpretedFunction;
+      const classInfo = func.classInfo as ClassInfo;
+      for (const field of classInfo.fields) {
+         const initScope = this.createInitializerScope(classInfo.scope, instance, func.homeObject as object);
+         yield this.defineField(instance, field.key, field.value, initScope);
+      }
+   }
+
+   /**
+    * super(...args): construct the parent class for `newTarget`, then define the fields of the class
+    */
+   private *constructSuper(ctor: HostFunction, args: any[], newTarget: any): Frame {
+      const parent = Object.getPrototypeOf(ctor);
+      if (typeof parent !== "function" || this.functions.get(parent)?.constructable === false) {
+         throw new TypeError(`Super constructor ${String(parent)} of anonymous class is not a constructor`);
+      }
+
+      const instance = this.functions.has(parent)
+         ? yield this.constructFunction(parent, args, newTarget)
+         : this.callHost(parent, undefined, args, true, newTarget);
+      yield this.initializeFields(ctor, instance);
+      return instance;
+   }
+
+   /**
+    * Bind `this` in a derived constructor once super() returned
+    */
+   private initializeThis(scope: Scope | null, value: any): void {
+      while (scope && !("this" in scope.vars)) {
+         scope = scope.parent;
+      }
+      if (!scope) {
+         throw new SyntaxError("'super' keyword unexpected here");
+      }
+      if (scope.vars.this !== UNINITIALIZED) {
+         throw new ReferenceError("Super constructor may only be called once");
+      }
+      scope.vars.this = value;
+   }
+
+   /**
+    * Create the host function standing in for an interpreted function
+    */
+   private wrapFunction(func: InterpretedFunction, name: string, length: number): HostFunction {
+      const interpreter = this;
+      let fn: HostFunction;
+      if (func.constructable) {
+         fn = function (this: any, ...args: any[]) {
+            return interpreter.runEntry(
+               new.target
+                  ? interpreter.constructFunction(fn, args, new.target)
+                  : interpreter.invokeFunction(fn, args, this),
+            );
+         };
+      } else {
+         // Method definitions are callable with a receiver but have no [[Construct]]
+         fn = {
+            method(this: any, ...args: any[]) {
+               return interpreter.runEntry(interpreter.invokeFunction(fn, args, this));
+            },
+         }.method;
+      }
+
+      Object.setPrototypeOf(fn, this.functionPrototype);
+      Object.defineProperty(fn, "length", { value: length, configurable: true });
+      Object.defineProperty(fn, "name", { value: name, configurable: true });
+      this.functions.set(fn, func);
+      return fn;
+   }
+
+   /**
+    * Create a bound function whose calls unwrap to the target on the current stack
+    */
+   private bindFunction(target: HostFunction, thisArg: any, args: any[]): HostFunction {
+      this.allocate(FUNCTION_SIZE + args.length * ELEMENT_SIZE);
+      const targetFunc = this.functions.get(target) as InterpretedFunction;
+      const targetLength = typeof target.length === "number" ? target.length : 0;
+      const fn = this.wrapFunction(
+         { ...targetFunc, bound: { target, thisArg, args } },
+         `bound ${typeof target.name === "string" ? target.name : ""}`,
+         Math.max(0, targetLength - args.length),
+      );
+      // instanceof checks a bound function's target
+      Object.defineProperty(fn, Symbol.hasInstance, { value: (value: any) => value instanceof target });
+      return fn;
+   }
 
-         case "TryStatement": {
-            let result: any;
-            let caughtError: any = null;
+   /**
+    * Name an anonymous function by the binding or property it is assigned to
+    */
+   private nameFunction(node: t.Node, value: any, key: any): void {
+      if (
+         (((node.type === "FunctionExpression" ||
+            node.type === "ClassExpression" ||
+            // export default class {}
+            node.type === "ClassDeclaration") &&
+            !node.id) ||
+            node.type === "ArrowFunctionExpression") &&
+         this.functions.has(value) &&
+         Object.getOwnPropertyDescriptor(value, "name")?.value === ""
+      ) {
+         Object.defineProperty(value, "name", { value: this.propertyName(key), configurable: true });
+      }
+   }
 
-            try {
-               result = this.evalNode(node.block, scope);
-            } catch (error) {
-               // Control flow statements (break/continue/return) should not be caught by user code
-               // Re-throw them immediately without executing the catch handler
-               if (
-                  typeof error === "object" &&
-                  error !== null &&
-                  ((error as ControlFlow).type === "break" ||
-                     (error as ControlFlow).type === "continue" ||
-                     (error as ControlFlow).type === "return")
-               ) {
-                  throw error;
-               }
+   /**
+    * Function name for a property key: symbols are named by their description in brackets
+    */
+   private propertyName(key: any): string {
+      if (typeof key === "symbol") {
+         return key.description ? `[${key.description}]` : "";
+      }
+      return String(key);
+   }
 
-               caughtError = error;
+   /**
+    * Source text of an interpreted function, or the native form when its source is unknown
+    */
+   private functionSource(fn: HostFunction): string {
+      const func = this.functions.get(fn);
+      const source = func && !func.bound ? this.functionSources.get(func.node) : undefined;
+      if (source !== undefined && func?.node.start != null && func.node.end != null) {
+         return source.slice(func.node.start, func.node.end);
+      }
+      return `function ${func?.bound ? "" : fn.name}() { [native code] }`;
+   }
 
-               if (node.handler) {
-                  const catchScope = this.createScope(scope, "block");
-                  if (node.handler.param && node.handler.param.type === "Identifier") {
-                     catchScope.vars[node.handler.param.name] = error;
-                  }
-                  try {
-                     result = this.evalNode(node.handler.body, catchScope);
-                     caughtError = null;
-                  } catch (catchError) {
-                     caughtError = catchError;
-                  }
-               }
-            } finally {
-               if (node.finalizer) {
-                  this.evalNode(node.finalizer, scope);
-               }
+   /**
+    * Remember the source text of the functions in a program parsed with its source attached
+    * (see `parse`), so interpreted functions can print it from toString()
+    */
+   private registerSources(program: t.Program): void {
+      const source = program.extra?.source;
+      if (typeof source !== "string" || this.functionSources.has(program)) return;
 
-               if (caughtError !== null) {
-                  // biome-ignore lint/correctness/noUnsafeFinally: valid here
-                  throw caughtError;
+      this.functionSources.set(program, source);
+      const pending: any[] = [program];
+      while (pending.length > 0) {
+         const node = pending.pop();
+         switch (node.type) {
+            case "FunctionDeclaration":
+            case "FunctionExpression":
+            case "ArrowFunctionExpression":
+            case "ObjectMethod":
+            case "ClassMethod":
+            case "ClassDeclaration":
+            case "ClassExpression":
+               this.functionSources.set(node, source);
+         }
+         for (const key in node) {
+            if (key === "loc" || key === "extra" || key.endsWith("Comments")) continue;
+            const child = node[key];
+            if (Array.isArray(child)) {
+               for (const item of child) {
+                  if (item && typeof item.type === "string") pending.push(item);
                }
+            } else if (child && typeof child.type === "string") {
+               pending.push(child);
             }
-
-            return result;
-         }
-
-         // With statement (deprecated but part of ES5)
-         case "WithStatement": {
-            throw new Error("with statement is not supported");
          }
+      }
+   }
 
-         // Directives (e.g., "use strict")
-         case "Directive":
-            return undefined;
+   /**
+    * Create the prototype of interpreted functions: Function.prototype with call, apply, bind
+    * and toString that understand interpreted functions
+    */
+   private createFunctionPrototype(): object {
+      const proto = Object.create(Function.prototype);
+      const interpreter = this;
 
-         default:
-            throw new Error(`Unhandled node type: ${node.type}`);
+      for (const method of ["call", "apply", "bind", "toString"] as const) {
+         const native = Function.prototype[method] as HostFunction;
+         const fn = {
+            [method](this: any, ...args: any[]) {
+               if (!interpreter.functions.has(this)) {
+                  return native.apply(this, args);
+               }
+               return interpreter.runEntry(interpreter.applyFunctionMethod(method, this, args));
+            },
+         }[method];
+         Object.defineProperty(fn, "length", { value: native.length });
+         this.functionMethods.set(fn, method);
+         Object.defineProperty(proto, method, { value: fn, writable: true, configurable: true });
       }
+
+      return proto;
    }
 
    /**
-    * Apply compound assignment operators
+    * Apply a Function.prototype method to an interpreted function
     */
-   private applyAssignmentOperator(left: any, right: any, operator: string): any {
-      switch (operator) {
-         case "+=":
-            return left + right;
-         case "-=":
-            return left - right;
-         case "*=":
-            return left * right;
-         case "/=":
-            return left / right;
-         case "%=":
-            return left % right;
-         case "<<=":
-            return left << right;
-         case ">>=":
-            return left >> right;
-         case ">>>=":
-            return left >>> right;
-         case "&=":
-            return left & right;
-         case "|=":
-            return left | right;
-         case "^=":
-            return left ^ right;
-         default:
-            throw new Error(`Unknown assignment operator: ${operator}`);
+   private *applyFunctionMethod(method: FunctionMethod, fn: HostFunction, args: any[]): Frame {
+      switch (method) {
+         case "call":
+            return yield this.invokeFunction(fn, args.slice(1), args[0]);
+         case "apply": {
+            const list = args[1];
+            if (list == null) {
+               return yield this.invokeFunction(fn, [], args[0]);
+            }
+            if (typeof list !== "object" && typeof list !== "function") {
+               throw new TypeError("CreateListFromArrayLike called on non-object");
+            }
+            return yield this.invokeFunction(fn, Array.from(list as ArrayLike<any>), args[0]);
+         }
+         case "bind":
+            return this.bindFunction(fn, args[0], args.slice(1));
+         case "toString":
+            return this.functionSource(fn);
       }
    }
 
    /**
-    * Create an interpreted function
+    * Run a frame from host code as a host→sandbox entry
     */
-   private createFunction(
-      node: t.FunctionDeclaration | t.FunctionExpression | t.ArrowFunctionExpression | t.ObjectMethod,
-      closureScope: Scope,
-   ): InterpretedFunction {
-      const func: any = {
-         __interpreted: true,
-         params: node.params.filter((p): p is t.Identifier => p.type === "Identifier"),
-         body: node.body,
-         closure: closureScope,
-         name: "id" in node && node.id ? node.id.name : undefined,
-      };
+   private runEntry(frame: Frame): any {
+      return this.enter(() => this.runToCompletion(frame));
+   }
 
-      // Add prototype property for regular functions (not arrow functions)
-      if (node.type !== "ArrowFunctionExpression") {
-         func.prototype = {};
+   /**
+    * Construct an instance with an interpreted function, inheriting from `newTarget.prototype`
+    */
+   private *constructFunction(fn: HostFunction, args: any[], newTarget: any): Frame {
+      const func = this.functions.get(fn);
+      if (!func?.constructable) {
+         throw new TypeError(`${fn.name || "anonymous"} is not a constructor`);
       }
 
-      // Add Function.prototype methods: call, apply, bind
-      func.call = (thisArg: any, ...args: any[]) => {
-         return this.callFunction(func, args, closureScope, thisArg);
-      };
+      // Bound functions construct their target with the bound arguments, ignoring the bound this
+      if (func.bound) {
+         const { target, args: boundArgs } = func.bound;
+         return yield this.constructFunction(target, [...boundArgs, ...args], newTarget === fn ? target : newTarget);
+      }
 
-      func.apply = (thisArg: any, args: any[] = []) => {
-         return this.callFunction(func, args, closureScope, thisArg);
-      };
+      // Derived classes get their instance from super()
+      if (func.classInfo?.derived) {
+         if (func.classInfo.implicitConstructor) {
+            return yield this.constructSuper(fn, args, newTarget);
+         }
+         return yield this.invokeFunction(fn, args, UNINITIALIZED, newTarget);
+      }
 
-      func.bind = (thisArg: any, ...boundArgs: any[]) => {
-         const boundFunc: any = {
-            __interpreted: true,
-            params: func.params,
-            body: func.body,
-            closure: closureScope,
-            name: func.name,
-            __boundThis: thisArg, // Store bound this
-            __boundArgs: boundArgs, // Store bound arguments
-            __originalFunc: func, // Store original function
-         };
+      const proto = newTarget.prototype;
+      const instance = Object.create(
+         proto !== null && (typeof proto === "object" || typeof proto === "function") ? proto : Object.prototype,
+      );
+      this.sandboxObjects?.add(instance);
+      if (func.classInfo) {
+         yield this.initializeFields(fn, instance);
+      }
+      const result = yield this.invokeFunction(fn, args, instance, newTarget);
+      // If the constructor returns an object, use that; otherwise use the instance
+      return result !== null && (typeof result === "object" || typeof result === "function") ? result : instance;
+   }
 
-         // Bound functions also need call/apply/bind
-         boundFunc.call = (_: any, ...args: any[]) => {
-            return this.callFunction(func, [...boundArgs, ...args], closureScope, thisArg);
-         };
-         boundFunc.apply = (_: any, args: any[] = []) => {
-            return this.callFunction(func, [...boundArgs, ...args], closureScope, thisArg);
-         };
-         boundFunc.bind = (_newThisArg: any, ...newBoundArgs: any[]) => {
-            // Bind to the already-bound thisArg, ignore newThisArg
-            return func.bind(thisArg, ...boundArgs, ...newBoundArgs);
-         };
+   /**
+    * Invoke an interpreted function as a frame on the current stack
+    */
+   private *invokeFunction(fn: any, args: any[], thisContext?: any, newTarget?: any): Frame {
+      const func = this.functions.get(fn);
+      if (!func) {
+         throw new TypeError("Value is not a function");
+      }
+      if (func.classInfo && newTarget === undefined) {
+         throw new TypeError(`Class constructor ${fn.name} cannot be invoked without 'new'`);
+      }
 
-         return boundFunc;
-      };
+      if (func.bound) {
+         const { target, thisArg, args: boundArgs } = func.bound;
+         return yield this.invokeFunction(target, [...boundArgs, ...args], thisArg);
+      }
 
-      return func;
+      let frame = this.runFunction(fn, func, args, thisContext, newTarget);
+      if (this.profiler) {
+         frame = this.profileCall(this.profiler, fn, func, frame);
+      }
+      if (!this.traceCalls) {
+         return yield frame;
+      }
+      return yield this.traceCall(
+         { callee: fn, thisArg: thisContext, args, host: false, construct: newTarget !== undefined },
+         frame,
+      );
    }
 
    /**
-    * Call an interpreted function
+    * Run the frame of an interpreted function as a callee of the profiler's current node
     */
-   private callFunction(func: any, args: any[], _callerScope: Scope, thisContext?: any): any {
-      if (!func || !func.__interpreted) {
-         throw new TypeError("Value is not a function");
+   private *profileCall(profiler: Profiler, fn: HostFunction, func: InterpretedFunction, frame: Frame): Frame {
+      const caller = profiler.enter(func.node, () => ({
+         functionName: fn.name || "<anonymous>",
+         source: func.node.loc?.filename,
+         line: func.node.loc?.start.line,
+         column: func.node.loc?.start.column,
+         host: false,
+      }));
+      try {
+         return yield frame;
+      } finally {
+         profiler.exit(caller);
       }
+   }
 
-      // Handle bound functions
-      if (func.__boundThis !== undefined) {
-         // Use bound this and prepend bound arguments
-         thisContext = func.__boundThis;
-         args = [...(func.__boundArgs || []), ...args];
-         func = func.__originalFunc || func;
+   /**
+    * Run a frame between the onCall and onReturn hooks
+    */
+   private *traceCall(call: CallEvent, frame: Frame): Frame {
+      this.hooks.onCall?.(call);
+      let value: any;
+      try {
+         value = yield frame;
+      } catch (error) {
+         this.hooks.onReturn?.(call, error, true);
+         throw error;
       }
+      this.hooks.onReturn?.(call, value, false);
+      return value;
+   }
 
+   /**
+    * Bind the arguments of an interpreted function and run its body
+    */
+   private *runFunction(
+      fn: HostFunction,
+      func: InterpretedFunction,
+      args: any[],
+      thisContext: any,
+      newTarget: any,
+   ): Frame {
       const funcScope = this.createScope(func.closure, "function");
 
       // Bind function name for named function expressions
       // ES5 spec: "The Identifier in a FunctionExpression can be referenced from
       // inside the FunctionExpression's FunctionBody"
       if (func.name) {
-         funcScope.vars[func.name] = func;
+         funcScope.vars[func.name] = fn;
       }
 
       // Hoist declarations in function body
@@ -977,24 +4004,162 @@ export class Interpreter {
          this.hoistDeclarations(func.body.body, funcScope);
       }
 
-      // Bind parameters
+      // Add 'arguments' object and 'this' binding; arrow functions see their closure's
+      if (!func.arrow) {
+         funcScope.vars.arguments = args;
+         this.sandboxObjects?.add(args);
+         funcScope.vars.this = thisContext;
+         funcScope.vars[NEW_TARGET] = newTarget;
+         funcScope.vars[HOME_OBJECT] = func.homeObject;
+         if (func.classInfo) funcScope.vars[ACTIVE_FUNCTION] = fn;
+      }
+
+      // Async functions bind their parameters in the body, so errors reject the returned promise
+      if (!func.async) {
+         yield this.bindParameters(func, funcScope, args);
+      }
+
+      // Generator functions return a suspended iterator instead of running the body
+      if (func.generator) {
+         const proto = fn.prototype;
+         const generator = Object.create(
+            proto !== null && (typeof proto === "object" || typeof proto === "function")
+               ? proto
+               : this.generatorPrototype,
+         );
+         this.generators.set(generator, { frames: [this.evalFunctionBody(func, funcScope)], status: "suspendedStart" });
+         this.allocate(OBJECT_SIZE + CALL_FRAME_SIZE);
+         return generator;
+      }
+
+      // The call frame and arguments are live only until the call returns
+      if (this.callStack.length >= this.maxCallDepth) {
+         throw new RangeError("Maximum call stack size exceeded");
+      }
+
+      const frameSize = CALL_FRAME_SIZE + args.length * ELEMENT_SIZE;
+      this.allocate(frameSize);
+      this.callStack.push({
+         functionName: func.name || "<anonymous>",
+         callLocation: this.location,
+         callScope: this.currentScope,
+      });
+      try {
+         // The call lasts until the first await; the rest runs as promise jobs
+         if (func.async) {
+            return yield this.startAsync(this.evalAsyncBody(func, funcScope, args));
+         }
+
+         const result = yield this.evalFunctionBody(func, funcScope);
+         if (func.classInfo?.derived) {
+            // Derived constructors return their object, or the `this` that super() initialized
+            if (result !== null && (typeof result === "object" || typeof result === "function")) return result;
+            if (result !== undefined) {
+               throw new TypeError("Derived constructors may only return object or undefined");
+            }
+            return this.getVar(funcScope, "this");
+         }
+         return result;
+      } finally {
+         // Back in the caller, which is still at the call
+         const entry = this.callStack.pop() as StackEntry;
+         this.location = entry.callLocation;
+         this.currentScope = entry.callScope;
+         this.allocated -= frameSize;
+      }
+   }
+
+   /**
+    * Bind parameters; defaults and patterns are evaluated in the function scope
+    */
+   private *bindParameters(func: InterpretedFunction, funcScope: Scope, args: any[]): Frame {
       for (let i = 0; i < func.params.length; i++) {
-         funcScope.vars[func.params[i].name] = args[i];
+         const param = func.params[i];
+         if (param.type === "Identifier") {
+            funcScope.vars[param.name] = args[i];
+         } else if (param.type === "RestElement") {
+            this.allocate(arraySize(Math.max(0, args.length - i)));
+            const rest = args.slice(i);
+            this.sandboxObjects?.add(rest);
+            yield this.bindPattern(param.argument, rest, funcScope, "param");
+         } else {
+            yield this.bindPattern(param, args[i], funcScope, "param");
+         }
+      }
+   }
+
+   /**
+    * Body of an async function, including its parameter bindings
+    */
+   private *evalAsyncBody(func: InterpretedFunction, funcScope: Scope, args: any[]): Frame {
+      yield this.bindParameters(func, funcScope, args);
+      return yield this.evalFunctionBody(func, funcScope);
+   }
+
+   /**
+    * Run an async body until it first awaits, returning the promise it settles
+    */
+   private *startAsync(body: Frame): Frame {
+      let capability!: AsyncCapability;
+      const promise = new Promise((resolve, reject) => {
+         capability = { resolve, reject };
+      });
+      this.allocate(OBJECT_SIZE + CALL_FRAME_SIZE);
+      const state: GeneratorState = { frames: [body], status: "suspendedStart" };
+      yield this.resumeAsync(state, capability, "next", undefined);
+      return promise;
+   }
+
+   /**
+    * Resume an async body until its next await, then queue its continuation as a job
+    * that runs once the awaited value settles
+    */
+   private *resumeAsync(state: GeneratorState, capability: AsyncCapability, mode: "next" | "throw", value: any): Frame {
+      let result: IteratorResult<any>;
+      try {
+         result = yield { signal: "resume", generator: state, mode, value } as Signal;
+      } catch (e) {
+         // Interrupts go to the host entry, never to sandbox handlers of the promise
+         if (e instanceof ExecutionInterruptedError) throw e;
+         capability.reject(e);
+         return;
+      }
+
+      if (result.done) {
+         capability.resolve(result.value);
+         return;
       }
 
-      // Add 'arguments' object
-      funcScope.vars.arguments = args;
+      // Adopt the awaited value like Promise.resolve, without calling an overridden then()
+      const awaited = result.value instanceof Promise ? result.value : new Promise((resolve) => resolve(result.value));
+      nativeThen.call(
+         awaited,
+         (settled: any) => this.enqueueJob(this.resumeAsync(state, capability, "next", settled), capability),
+         (error: any) => this.enqueueJob(this.resumeAsync(state, capability, "throw", error), capability),
+      );
+   }
 
-      // Add 'this' binding
-      funcScope.vars.this = thisContext;
+   /**
+    * Queue a promise job, running the queue right away unless the host drains it manually
+    */
+   private enqueueJob(frame: Frame, capability: AsyncCapability): void {
+      this.jobs.push({ frame, capability });
+      if (this.autoRunJobs && !this.runningJobs && this.entryDepth === 0) {
+         this.runJobs();
+      }
+   }
 
+   /**
+    * Evaluate a function body, unwrapping the return control flow into the completion value
+    */
+   private *evalFunctionBody(func: InterpretedFunction, funcScope: Scope): Frame {
       try {
          if (func.body.type === "BlockStatement") {
-            this.evalNode(func.body, funcScope);
+            yield this.evalNode(func.body, funcScope);
             return undefined;
          }
          // Arrow function with expression body
-         return this.evalNode(func.body, funcScope);
+         return yield this.evalNode(func.body, funcScope);
       } catch (e) {
          if (typeof e === "object" && e !== null && (e as ControlFlow).type === "return") {
             return (e as ControlFlow & { value: any }).value;
@@ -1002,4 +4167,225 @@ export class Interpreter {
          throw e;
       }
    }
+
+   /**
+    * yield* - forward next/throw/return between the generator's consumer and the inner iterator
+    */
+   private *delegateYield(iterable: any): Frame {
+      const iterator = yield this.getIterator(iterable);
+      let result = yield this.resumeIterator(iterator, "next", undefined);
+
+      while (!result.done) {
+         let mode: GeneratorResumeMode = "next";
+         let received: any;
+         try {
+            received = yield { signal: "yield", value: result.value } as Signal;
+         } catch (e) {
+            // return() reaches the suspended frame as a thrown return completion
+            const isReturn = typeof e === "object" && e !== null && (e as ControlFlow).type === "return";
+            mode = isReturn ? "return" : "throw";
+            received = isReturn ? (e as ControlFlow & { value: any }).value : e;
+         }
+
+         if (mode !== "next" && typeof iterator[mode] !== "function") {
+            if (mode === "return") throw { type: "return", value: received } as ControlFlow;
+            if (typeof iterator.return === "function") yield this.resumeIterator(iterator, "return", undefined);
+            throw new TypeError("The iterator does not provide a 'throw' method");
+         }
+
+         result = yield this.resumeIterator(iterator, mode, received);
+         if (mode === "return" && result.done) {
+            throw { type: "return", value: result.value } as ControlFlow;
+         }
+      }
+
+      return result.value;
+   }
+
+   /**
+    * Call next/throw/return on an iterator, keeping interpreted generators on the current stack.
+    * Results of async iterators are awaited.
+    */
+   private *resumeIterator(iterator: any, mode: GeneratorResumeMode, value: any, async = false): Frame {
+      let result = yield this.callValue(iterator[mode], iterator, [value]);
+      if (async) result = yield { signal: "await", value: result } as Signal;
+      if (result === null || typeof result !== "object") {
+         throw new TypeError(`Iterator result ${result} is not an object`);
+      }
+      return result;
+   }
+
+   /**
+    * Create the prototype shared by generator functions' prototype objects
+    */
+   private createGeneratorPrototype(): object {
+      const proto = Object.create(IteratorPrototype);
+      const interpreter = this;
+
+      for (const mode of ["next", "return", "throw"] as const) {
+         const method = {
+            [mode](this: any, value?: any) {
+               const generator = interpreter.generators.get(this);
+               if (!generator) {
+                  throw new TypeError(`${mode} method called on incompatible receiver`);
+               }
+               return interpreter.enter(() =>
+                  interpreter.runToCompletion(interpreter.signalFrame({ signal: "resume", generator, mode, value })),
+               );
+            },
+         }[mode];
+         this.generatorMethods.set(method, mode);
+         Object.defineProperty(proto, mode, { value: method, writable: true, configurable: true });
+      }
+
+      Object.defineProperty(proto, Symbol.toStringTag, { value: "Generator", configurable: true });
+      return proto;
+   }
+
+   /**
+    * Single frame that hands a signal to the driver and returns its answer
+    */
+   private *signalFrame(signal: Signal): Frame {
+      return yield signal;
+   }
+
+   /**
+    * Drive an evaluation that must not pause (host entry points)
+    */
+   private runToCompletion(frame: Frame): any {
+      if (this.nestedRuns >= MAX_NESTED_RUNS) {
+         throw new RangeError("Maximum call stack size exceeded");
+      }
+      const machine: Machine = { stack: [frame], throwing: false, value: undefined };
+      this.nestedRuns++;
+      try {
+         return (this.drive(machine, Infinity) as { value: any }).value;
+      } finally {
+         this.nestedRuns--;
+      }
+   }
+
+   /**
+    * Run frames on the machine's explicit stack until it unwinds or `budget` operations are spent.
+    * Completions are delivered to the top frame with next()/throw(), so neither interpreted
+    * recursion nor control flow grows the host stack.
+    */
+   private drive(machine: Machine, budget: number): ExecutionResult {
+      const stack = machine.stack;
+      const limit = this.opCount + budget;
+
+      while (stack.length > 0) {
+         if (this.opCount >= limit) {
+            return { done: false };
+         }
+
+         const frame = stack[stack.length - 1] as Frame;
+         let step: IteratorResult<any>;
+         try {
+            step = machine.throwing ? frame.throw(machine.value) : frame.next(machine.value);
+         } catch (e) {
+            stack.pop();
+            if (e instanceof Error) this.annotateError(e);
+            machine.throwing = true;
+            machine.value = e;
+            this.leaveGenerator(machine);
+            continue;
+         }
+
+         if (step.done) {
+            stack.pop();
+            machine.throwing = false;
+            machine.value = step.value;
+            this.leaveGenerator(machine);
+            continue;
+         }
+
+         const request = step.value;
+         machine.throwing = false;
+         machine.value = undefined;
+
+         if (request.signal === "value") {
+            // Evaluated inline, so the frame just takes the value
+            machine.value = request.value;
+         } else if (request.signal === "yield" || request.signal === "await") {
+            // Park the generator's (or async function's) frames and hand the value to whoever resumed it
+            let boundary = stack.length - 1;
+            while (boundary >= 0 && typeof (stack[boundary] as Frame).next === "function") boundary--;
+            if (boundary < 0) {
+               machine.throwing = true;
+               machine.value = new SyntaxError(
+                  request.signal === "yield"
+                     ? "yield is only valid inside generator functions"
+                     : "await is only valid in async functions and at the top level",
+               );
+               continue;
+            }
+            const generator = stack[boundary] as GeneratorState;
+            generator.frames = stack.splice(boundary + 1) as Frame[];
+            generator.status = "suspendedYield";
+            stack.pop();
+            machine.value = { value: request.value, done: false };
+         } else if (request.signal === "resume") {
+            this.enterGenerator(machine, request.generator, request.mode, request.value);
+         } else if (request.signal === "pause") {
+            // Elsewhere the host is waiting for a result, so the statement just runs
+            if (machine.pausable) {
+               this.stepping = undefined;
+               this.pauseRequested = false;
+               this.updateDebugging();
+               this.paused = { machine, frames: this.pausedFrames(request.scope), depth: this.callStack.length };
+               return { done: false, pause: request.pause };
+            }
+         } else {
+            stack.push(request);
+         }
+      }
+
+      if (machine.throwing) {
+         throw machine.value;
+      }
+      return { done: true, value: machine.value };
+   }
+
+   /**
+    * Resume a generator: push its boundary and parked frames, then deliver the completion
+    */
+   private enterGenerator(machine: Machine, generator: GeneratorState, mode: GeneratorResumeMode, value: any): void {
+      if (generator.status === "executing") {
+         machine.throwing = true;
+         machine.value = new TypeError("Generator is already running");
+         return;
+      }
+
+      if (generator.status === "suspendedStart" && mode === "return") {
+         generator.status = "completed";
+         generator.frames = [];
+      }
+
+      if (generator.status === "completed") {
+         machine.throwing = mode === "throw";
+         machine.value = mode === "throw" ? value : { value: mode === "return" ? value : undefined, done: true };
+         return;
+      }
+
+      generator.status = "executing";
+      machine.stack.push(generator, ...generator.frames);
+      generator.frames = [];
+      machine.throwing = mode !== "next";
+      machine.value = mode === "return" ? ({ type: "return", value } as ControlFlow) : value;
+   }
+
+   /**
+    * After a frame finished: if it was a generator's body, complete the generator
+    */
+   private leaveGenerator(machine: Machine): void {
+      const top = machine.stack[machine.stack.length - 1];
+      if (!top || typeof (top as Frame).next === "function") return;
+
+      machine.stack.pop();
+      (top as GeneratorState).status = "completed";
+      if (!machine.throwing) {
+         machine.value = { value: machine.value, done: true };
+      }
+   }
 }
@@ -0,0 +1,102 @@
+/**
+ * Rough V8 heap sizes in bytes, used to estimate what sandboxed code allocates.
+ * The estimates only need to be in the right order of magnitude to stop runaway
+ * allocation, not to match the engine's exact layout.
+ */
+export const OBJECT_SIZE = 32;
+export const PROPERTY_SIZE = 16;
+export const ARRAY_SIZE = 32;
+export const ELEMENT_SIZE = 8;
+export const FUNCTION_SIZE = 96;
+export const CALL_FRAME_SIZE = 256;
+
+/**
+ * Estimated size of a string with the given length (UTF-16 code units)
+ */
+export function stringSize(length: number): number {
+   return 16 + length * 2;
+}
+
+/**
+ * Estimated size of an array with the given length
+ */
+export function arraySize(length: number): number {
+   return ARRAY_SIZE + length * ELEMENT_SIZE;
+}
+
+/**
+ * Estimated size of a value a host function handed to the sandbox. Only strings and
+ * arrays are counted, since those are what natives like map, split, join or concat build.
+ */
+export function estimateSize(value: any): number {
+   if (typeof value === "string") return stringSize(value.length);
+   if (Array.isArray(value)) return arraySize(value.length);
+   return 0;
+}
+
+/**
+ * Length of an array or string, or the `length` data property of an array-like, read
+ * without running getters or valueOf of sandboxed objects
+ */
+function lengthOf(value: any): number {
+   if (typeof value === "string") return value.length;
+   if (value === null || typeof value !== "object") return 0;
+   const length = Object.getOwnPropertyDescriptor(value, "length")?.value;
+   return typeof length === "number" && length > 0 ? Math.min(Math.floor(length), 2 ** 32 - 1) : 0;
+}
+
+/**
+ * Start or end index argument of an array method, clamped to the array like the method does.
+ * Arguments that are not primitives count as `fallback`, which keeps the estimate on the high side.
+ */
+function relativeIndex(value: any, length: number, fallback: number): number {
+   if (value === undefined || (typeof value !== "number" && typeof value !== "string")) return fallback;
+   const index = Math.trunc(Number(value)) || 0;
+   return index < 0 ? Math.max(length + index, 0) : Math.min(index, length);
+}
+
+/**
+ * Estimated allocation of a host call, charged before the call runs so that a single
+ * call cannot exhaust the host heap (`new Array(1e9)`, `"x".repeat(1e9)`). Methods that fill
+ * arrays in place are charged for the elements they write, since they make sparse arrays dense.
+ */
+export function estimateHostAllocation(fn: (...args: any[]) => any, thisArg: any, args: any[]): number {
+   if (fn === Array && args.length === 1 && typeof args[0] === "number") {
+      return arraySize(args[0]);
+   }
+   // Array-likes are copied up to their length; iterables are only counted once built
+   if (fn === Array.from) {
+      return arraySize(lengthOf(args[0]));
+   }
+   if (typeof thisArg === "string") {
+      if (fn === String.prototype.repeat) return stringSize(thisArg.length * (Number(args[0]) || 0));
+      if (fn === String.prototype.padStart || fn === String.prototype.padEnd) return stringSize(Number(args[0]) || 0);
+   }
+   if (Array.isArray(thisArg)) {
+      const length = thisArg.length;
+      switch (fn) {
+         case Array.prototype.push:
+         case Array.prototype.unshift:
+            return args.length * ELEMENT_SIZE;
+         case Array.prototype.fill: {
+            const start = relativeIndex(args[1], length, 0);
+            return Math.max(0, relativeIndex(args[2], length, length) - start) * ELEMENT_SIZE;
+         }
+         case Array.prototype.copyWithin: {
+            const target = relativeIndex(args[0], length, 0);
+            const start = relativeIndex(args[1], length, 0);
+            const count = Math.min(relativeIndex(args[2], length, length) - start, length - target);
+            return Math.max(0, count) * ELEMENT_SIZE;
+         }
+         case Array.prototype.splice:
+            // Items spliced in, ignoring the ones deleted
+            return Math.max(0, args.length - 2) * ELEMENT_SIZE;
+         case Array.prototype.join: {
+            // Separators alone make a string as long as the array, however sparse it is
+            const separator = typeof args[0] === "string" ? args[0].length : 1;
+            return stringSize(Math.max(0, length - 1) * separator);
+         }
+      }
+   }
+   return 0;
+}
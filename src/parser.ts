@@ -1,6 +1,18 @@
 import { parse as babelParse } from "@babel/parser";
 import type * as t from "@babel/types";
 
+/**
+ * Options for parse()
+ */
+export interface ParseOptions {
+   /**
+    * Allow `await` at the top level of the script, which makes the interpreter evaluate the
+    * program asynchronously to a promise. Off by default, so `await` stays a valid identifier
+    * in scripts.
+    */
+   topLevelAwait?: boolean;
+}
+
 /**
  * Parse JavaScript code into an AST
  *
@@ -8,17 +20,60 @@ import type * as t from "@babel/types";
  * for ES5 script parsing. Users can import this to parse code,
  * or use their own parser and pass the AST to the interpreter.
  *
+ * The source text is kept as `program.extra.source`, which lets interpreted
+ * functions return their source from toString().
+ *
  * @param code - JavaScript code to parse
+ * @param filename - Source name recorded in node locations, shown in stack traces and matched by breakpoints
+ * @param options - Script syntax to allow beyond ES5 scripts
  * @returns Babel AST Program node
  */
-export function parse(code: string): t.Program {
+export function parse(code: string, filename?: string, options: ParseOptions = {}): t.Program {
    try {
       const ast = babelParse(code, {
          sourceType: "script",
+         sourceFilename: filename,
+         allowAwaitOutsideFunction: options.topLevelAwait ?? false,
          plugins: [],
       });
+      ast.program.extra = { ...ast.program.extra, source: code };
       return ast.program;
    } catch (parseError: any) {
-      throw new Error(`Parse error: ${parseError.message}`);
+      throw syntaxError(parseError);
    }
 }
+
+/**
+ * Parse an ES module into an AST, for ModuleLoader.load()
+ *
+ * Like parse(), but with `sourceType: "module"`: import/export declarations and
+ * top-level await are allowed, and the code is strict.
+ *
+ * @param code - JavaScript module source
+ * @param filename - Source name recorded in node locations, e.g. the module URL
+ * @returns Babel AST Program node
+ */
+export function parseModule(code: string, filename?: string): t.Program {
+   try {
+      const ast = babelParse(code, {
+         sourceType: "module",
+         sourceFilename: filename,
+         plugins: [],
+      });
+      ast.program.extra = { ...ast.program.extra, source: code };
+      return ast.program;
+   } catch (parseError: any) {
+      throw syntaxError(parseError);
+   }
+}
+
+/**
+ * SyntaxError for a Babel parse error, keeping its `loc` ({ line, column }, column 0-based)
+ * and `pos` (offset into the source)
+ */
+function syntaxError(parseError: any): SyntaxError {
+   return Object.assign(new SyntaxError(`Parse error: ${parseError.message}`), {
+      loc: parseError.loc,
+      pos: parseError.pos,
+   });
+}
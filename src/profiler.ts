@@ -0,0 +1,423 @@
+import type * as t from "@babel/types";
+
+/**
+ * Options for startProfiling()
+ */
+export interface ProfilingOptions {
+   /**
+    * Operations between two samples of the running line (default: 1000). Time is also
+    * sampled whenever a function is entered or left, so this only limits line resolution.
+    */
+   sampleInterval?: number;
+}
+
+/**
+ * Time and operations spent in an interpreted function. Total counts include the functions it
+ * calls, counted once for recursive calls; self counts exclude them. Times are in milliseconds.
+ */
+export interface ProfileFunction {
+   functionName: string;
+   /** Filename given to the parser */
+   source?: string;
+   /** 1-based line of the function */
+   line?: number;
+   /** 0-based column of the function */
+   column?: number;
+   calls: number;
+   selfOps: number;
+   totalOps: number;
+   selfTime: number;
+   totalTime: number;
+   /** Time in host functions the function called itself, part of totalTime but not of selfTime */
+   hostTime: number;
+}
+
+/**
+ * Operations and time spent on one source line, outside the functions it calls
+ */
+export interface ProfileLine {
+   source?: string;
+   line: number;
+   ops: number;
+   time: number;
+}
+
+/**
+ * Time spent in a host function called by sandboxed code, excluding interpreted callbacks it ran
+ */
+export interface ProfileHostFunction {
+   functionName: string;
+   calls: number;
+   time: number;
+}
+
+/**
+ * Profile in Chrome DevTools' `.cpuprofile` format; write it as JSON and load it in the
+ * Performance panel. Times are in microseconds.
+ */
+export interface CpuProfile {
+   nodes: {
+      id: number;
+      callFrame: { functionName: string; scriptId: string; url: string; lineNumber: number; columnNumber: number };
+      hitCount: number;
+      children?: number[];
+      positionTicks?: { line: number; ticks: number }[];
+   }[];
+   startTime: number;
+   endTime: number;
+   samples: number[];
+   timeDeltas: number[];
+}
+
+interface ProfileFrame {
+   functionName: string;
+   source?: string;
+   line?: number;
+   column?: number;
+   host: boolean;
+}
+
+interface LineStats {
+   source?: string;
+   line: number;
+   ops: number;
+   time: number;
+}
+
+/**
+ * Call tree node on the stack of the totals pass, visited again on exit to add up its subtree
+ */
+interface TotalsVisit {
+   node: ProfileNode;
+   parent?: TotalsVisit;
+   exit: boolean;
+   /** Whether no caller runs the same function */
+   outermost: boolean;
+   ops: number;
+   time: number;
+}
+
+const ROOT = {};
+const TOP_LEVEL = {};
+/** Key of the node that time spent outside sandboxed code is attributed to */
+const IDLE = {};
+
+const now: () => number = typeof performance !== "undefined" ? () => performance.now() : () => Date.now();
+
+/**
+ * Function in the call tree, reached through a specific chain of callers
+ */
+export class ProfileNode {
+   readonly children = new Map<object, ProfileNode>();
+   /** Samples per 1-based line */
+   readonly ticks = new Map<number, number>();
+   calls = 0;
+   selfOps = 0;
+   selfTime = 0;
+   hitCount = 0;
+
+   constructor(
+      readonly owner: Profiler,
+      readonly id: number,
+      readonly key: object,
+      readonly frame: ProfileFrame,
+   ) {}
+}
+
+/**
+ * Builds the call tree of a profiling session. The interpreter charges operations to the
+ * current node and moves it on calls and returns; time is sampled at every move.
+ */
+export class Profiler {
+   readonly root: ProfileNode;
+   /** Node of code run outside any function */
+   readonly topLevel: ProfileNode;
+   current: ProfileNode;
+   private nodes: ProfileNode[] = [];
+   private lines = new Map<string, LineStats>();
+   private samples: number[] = [];
+   /** Start of each sample's interval */
+   private sampleTimes: number[] = [];
+   /** Line of the last operation charged to the current node */
+   private line?: LineStats;
+   private sampleInterval: number;
+   private countdown: number;
+   private startTime = now();
+   private lastTime = this.startTime;
+   /** Set while no sandboxed code runs; that time goes to the (idle) node */
+   private idle = true;
+
+   constructor(
+      private location: () => t.SourceLocation | null,
+      options: ProfilingOptions = {},
+   ) {
+      this.sampleInterval = options.sampleInterval ?? 1000;
+      this.countdown = this.sampleInterval;
+      this.root = this.createNode(ROOT, { functionName: "(root)", host: false });
+      this.topLevel = this.child(this.root, TOP_LEVEL, () => ({ functionName: "<top-level>", host: false }));
+      this.current = this.topLevel;
+   }
+
+   /**
+    * Charge operations to the current node and line
+    */
+   charge(cost: number): void {
+      this.current.selfOps += cost;
+      this.line = this.currentLine();
+      if (this.line) this.line.ops += cost;
+      this.countdown -= cost;
+      if (this.countdown <= 0) this.sample();
+   }
+
+   /**
+    * Make a callee of the current node current, returning the caller to pass to exit()
+    */
+   enter(key: object, frame: () => ProfileFrame): ProfileNode {
+      this.sample();
+      const caller = this.current;
+      this.line = undefined;
+      this.current = this.child(caller, key, frame);
+      this.current.calls++;
+      return caller;
+   }
+
+   exit(caller: ProfileNode): void {
+      this.sample();
+      this.line = undefined;
+      this.current = caller;
+   }
+
+   /**
+    * Start sampling when sandboxed code runs, continuing at a node saved by suspend() or at the top level
+    */
+   resume(node: ProfileNode | undefined): void {
+      this.current = node?.owner === this ? node : this.topLevel;
+      this.line = undefined;
+      this.idle = false;
+      const time = now();
+      if (time > this.lastTime) {
+         this.record(
+            this.child(this.root, IDLE, () => ({ functionName: "(idle)", host: false })),
+            time,
+         );
+      }
+   }
+
+   /**
+    * Stop sampling until sandboxed code runs again, returning the node to resume at
+    */
+   suspend(): ProfileNode {
+      this.sample();
+      this.idle = true;
+      const node = this.current;
+      this.current = this.topLevel;
+      return node;
+   }
+
+   stop(): Profile {
+      this.sample();
+      return new Profile(this.nodes, [...this.lines.values()], {
+         startTime: this.startTime,
+         endTime: this.lastTime,
+         samples: this.samples,
+         sampleTimes: this.sampleTimes,
+      });
+   }
+
+   /**
+    * Attribute the time since the last sample to the current node and line
+    */
+   private sample(): void {
+      this.countdown = this.sampleInterval;
+      if (this.idle) return;
+      const time = now();
+      if (time <= this.lastTime) return;
+
+      const line = this.line;
+      if (line) {
+         line.time += time - this.lastTime;
+         this.current.ticks.set(line.line, (this.current.ticks.get(line.line) ?? 0) + 1);
+      }
+      this.record(this.current, time);
+   }
+
+   /**
+    * Add a sample of a node, covering the time from the last sample until `time`
+    */
+   private record(node: ProfileNode, time: number): void {
+      node.selfTime += time - this.lastTime;
+      node.hitCount++;
+      this.samples.push(node.id);
+      this.sampleTimes.push(this.lastTime);
+      this.lastTime = time;
+   }
+
+   private currentLine(): LineStats | undefined {
+      // Host functions run no lines of their own
+      if (this.current.frame.host) return undefined;
+      const loc = this.location();
+      if (!loc) return undefined;
+      const key = `${loc.filename ?? ""}:${loc.start.line}`;
+      let line = this.lines.get(key);
+      if (!line) {
+         line = { source: loc.filename, line: loc.start.line, ops: 0, time: 0 };
+         this.lines.set(key, line);
+      }
+      return line;
+   }
+
+   private child(parent: ProfileNode, key: object, frame: () => ProfileFrame): ProfileNode {
+      let node = parent.children.get(key);
+      if (!node) {
+         node = this.createNode(key, frame());
+         parent.children.set(key, node);
+      }
+      return node;
+   }
+
+   private createNode(key: object, frame: ProfileFrame): ProfileNode {
+      const node = new ProfileNode(this, this.nodes.length + 1, key, frame);
+      this.nodes.push(node);
+      return node;
+   }
+}
+
+/**
+ * Result of a profiling session: interpreted functions, source lines and host functions by
+ * the operations and time they took, and the call tree in `.cpuprofile` format
+ */
+export class Profile {
+   /** Start and end of the session in milliseconds, as performance.now() measures them */
+   readonly startTime: number;
+   readonly endTime: number;
+   readonly totalOps: number;
+   /** Time spent running sandboxed code and the host functions it called */
+   readonly totalTime: number;
+   /** Time spent in host functions called by sandboxed code */
+   readonly hostTime: number;
+   /** Interpreted functions by self operations, most expensive first */
+   readonly functions: ProfileFunction[];
+   /** Source lines by operations, most expensive first */
+   readonly lines: ProfileLine[];
+   /** Host functions by time, slowest first */
+   readonly hostFunctions: ProfileHostFunction[];
+
+   constructor(
+      private nodes: ProfileNode[],
+      lines: LineStats[],
+      private timeline: { startTime: number; endTime: number; samples: number[]; sampleTimes: number[] },
+   ) {
+      this.startTime = timeline.startTime;
+      this.endTime = timeline.endTime;
+      this.lines = lines.map((line) => ({ ...line })).sort((a, b) => b.ops - a.ops);
+
+      const functions = new Map<object, ProfileFunction>();
+      const hostFunctions = new Map<object, ProfileHostFunction>();
+      let totalOps = 0;
+      let totalTime = 0;
+      let hostTime = 0;
+      for (const node of nodes) {
+         if (node.key === ROOT || node.key === IDLE) continue;
+         totalOps += node.selfOps;
+         totalTime += node.selfTime;
+         if (node.frame.host) {
+            hostTime += node.selfTime;
+            const host = hostFunctions.get(node.key) ?? { functionName: node.frame.functionName, calls: 0, time: 0 };
+            host.calls += node.calls;
+            host.time += node.selfTime;
+            hostFunctions.set(node.key, host);
+         } else {
+            const { functionName, source, line, column } = node.frame;
+            const fn = functions.get(node.key) ?? {
+               functionName,
+               source,
+               line,
+               column,
+               calls: 0,
+               selfOps: 0,
+               totalOps: 0,
+               selfTime: 0,
+               totalTime: 0,
+               hostTime: 0,
+            };
+            fn.calls += node.calls;
+            fn.selfOps += node.selfOps;
+            fn.selfTime += node.selfTime;
+            for (const child of node.children.values()) {
+               if (child.frame.host) fn.hostTime += child.selfTime;
+            }
+            functions.set(node.key, fn);
+         }
+      }
+      this.totalOps = totalOps;
+      this.totalTime = totalTime;
+      this.hostTime = hostTime;
+
+      // Totals of recursive functions count the outermost call only. The tree is as deep as the
+      // interpreted recursion, so it is walked with an explicit stack rather than the host's.
+      const active = new Set<object>();
+      const stack: TotalsVisit[] = [{ node: nodes[0], exit: false, outermost: false, ops: 0, time: 0 }];
+      while (stack.length > 0) {
+         const visit = stack.pop() as TotalsVisit;
+         const { node } = visit;
+         if (!visit.exit) {
+            visit.exit = true;
+            visit.outermost = !active.has(node.key);
+            visit.ops = node.selfOps;
+            visit.time = node.selfTime;
+            active.add(node.key);
+            stack.push(visit);
+            for (const child of node.children.values()) {
+               stack.push({ node: child, parent: visit, exit: false, outermost: false, ops: 0, time: 0 });
+            }
+            continue;
+         }
+
+         if (visit.outermost) {
+            active.delete(node.key);
+            const fn = functions.get(node.key);
+            if (fn) {
+               fn.totalOps += visit.ops;
+               fn.totalTime += visit.time;
+            }
+         }
+         if (visit.parent) {
+            visit.parent.ops += visit.ops;
+            visit.parent.time += visit.time;
+         }
+      }
+
+      this.functions = [...functions.values()].sort((a, b) => b.selfOps - a.selfOps);
+      this.hostFunctions = [...hostFunctions.values()].sort((a, b) => b.time - a.time);
+   }
+
+   /**
+    * The call tree in Chrome DevTools' `.cpuprofile` format
+    */
+   toCpuProfile(): CpuProfile {
+      const micros = (ms: number) => Math.round(ms * 1000);
+      const { sampleTimes } = this.timeline;
+      const timeDeltas = sampleTimes.map(
+         (time, i) => micros(time) - micros(i === 0 ? this.timeline.startTime : sampleTimes[i - 1]),
+      );
+      return {
+         nodes: this.nodes.map((node) => ({
+            id: node.id,
+            callFrame: {
+               functionName: node.frame.host ? `${node.frame.functionName} (host)` : node.frame.functionName,
+               scriptId: "0",
+               url: node.frame.source ?? "",
+               lineNumber: node.frame.line === undefined ? -1 : node.frame.line - 1,
+               columnNumber: node.frame.column ?? -1,
+            },
+            hitCount: node.hitCount,
+            children: node.children.size > 0 ? [...node.children.values()].map((child) => child.id) : undefined,
+            positionTicks: node.ticks.size > 0 ? [...node.ticks].map(([line, ticks]) => ({ line, ticks })) : undefined,
+         })),
+         startTime: micros(this.timeline.startTime),
+         endTime: micros(this.timeline.endTime),
+         samples: [...this.timeline.samples],
+         timeDeltas,
+      };
+   }
+}
@@ -34,6 +34,30 @@ describe("ES6+ Transformation", () => {
       expect(result).toBe(15);
    });
 
+   it("should run class accessors defined by Babel helpers", () => {
+      const code = `
+			class Circle {
+				constructor(radius) {
+					this.radius = radius;
+				}
+				get diameter() {
+					return this.radius * 2;
+				}
+				set diameter(d) {
+					this.radius = d / 2;
+				}
+			}
+			const circle = new Circle(2);
+			const before = circle.diameter;
+			circle.diameter = 10;
+			[before, circle.radius];
+		`;
+      const ast = transformToES5(code);
+      const interpreter = new Interpreter();
+      const result = interpreter.evaluate(ast);
+      expect(result).toEqual([4, 5]);
+   });
+
    it("should transform destructuring to ES5", () => {
       const code = `
 			const [a, b, c] = [1, 2, 3];
@@ -131,12 +155,13 @@ describe("ES6+ Transformation", () => {
    });
 
    it("should handle for...of with NodeList-like objects directly", () => {
-      // Simulate NodeList-like object (plain object with numeric keys and length)
+      // Simulate a NodeList: numeric keys, length and the array iterator
       const mockNodeList = {
          0: { href: "link1" },
          1: { href: "link2" },
          2: { href: "link3" },
          length: 3,
+         [Symbol.iterator]: Array.prototype[Symbol.iterator],
       };
 
       // Should work directly without Array.from()
@@ -152,4 +177,67 @@ describe("ES6+ Transformation", () => {
       const result = interpreter.evaluate(ast);
       expect(result).toBe("link1,link2,link3");
    });
+
+   it("should iterate host Map and Set through Symbol.iterator", () => {
+      const code = `
+			const pairs = [];
+			for (const [key, value] of map) pairs.push(key + "=" + value);
+			const [first, ...rest] = set;
+			pairs.join(",") + ";" + first + ";" + [...rest].join(",");
+		`;
+      const ast = transformToES5(code);
+      const interpreter = new Interpreter({
+         map: new Map([
+            ["a", 1],
+            ["b", 2],
+         ]),
+         set: new Set([1, 2, 3]),
+      });
+      expect(interpreter.evaluate(ast)).toBe("a=1,b=2;1;2,3");
+   });
+
+   it("should close iterators when for...of exits early", () => {
+      const code = `
+			let closed = false;
+			const iterable = {
+				[Symbol.iterator]() {
+					let i = 0;
+					return {
+						next: () => ({ value: i++, done: false }),
+						return: () => { closed = true; return { done: true }; },
+					};
+				},
+			};
+			for (const x of iterable) {
+				if (x === 2) break;
+			}
+			closed;
+		`;
+      const ast = transformToES5(code);
+      const interpreter = new Interpreter();
+      expect(interpreter.evaluate(ast)).toBe(true);
+   });
+
+   it("should map error locations back to the original source", () => {
+      const code = [
+         "class Shape {",
+         "  area() {",
+         "    return this.missing.width;",
+         "  }",
+         "}",
+         "new Shape().area();",
+      ].join("\n");
+      const ast = transformToES5(code, { filename: "shape.js" });
+      const interpreter = new Interpreter();
+      try {
+         interpreter.evaluate(ast);
+         expect.unreachable();
+      } catch (error: any) {
+         expect(error).toBeInstanceOf(TypeError);
+         expect(error.callStack).toEqual([
+            { functionName: "area", line: 3, column: 11, source: "shape.js" },
+            { functionName: "<top-level>", line: 6, column: 0, source: "shape.js" },
+         ]);
+      }
+   });
 });
@@ -6,6 +6,9 @@ import type * as t from "@babel/types";
  *
  * This function uses Babel to transform modern JavaScript syntax to ES5,
  * then parses it into an AST. The resulting AST can be executed by the interpreter.
+ * Node locations (`loc`) are mapped back to the input code, so stack traces and
+ * breakpoints refer to the lines you wrote; `start`/`end` index the ES5 output kept
+ * as `program.extra.source`.
  *
  * @param code - Modern JavaScript code (ES6+, TypeScript, JSX, etc.)
  * @param options - Babel transformation options
@@ -44,6 +47,10 @@ export function transformToES5(
        * Enable JSX support (requires @babel/preset-react)
        */
       jsx?: boolean;
+      /**
+       * Source name recorded in node locations, shown in stack traces and matched by breakpoints
+       */
+      filename?: string;
    } = {},
 ): t.Program {
    const presets: any[] = [
@@ -74,15 +81,18 @@ export function transformToES5(
          presets,
          filename: "script.js",
          ast: true,
-         code: true, // Need code output to patch helpers
+         code: true, // Reparsed below so node positions match the source
+         sourceMaps: true,
          // Babel assumptions for pure ES5 output
          assumptions: {
             noDocumentAll: true,
             noClassCalls: true,
-            iterableIsArray: true,
             objectRestNoSymbols: true,
             setSpreadProperties: true,
-            skipForOfIteratorClosing: true,
+            // Override loose mode: for...of, spread and destructuring go through
+            // Symbol.iterator and close iterators, so Map, Set and NodeList work
+            iterableIsArray: false,
+            skipForOfIteratorClosing: false,
          },
       });
 
@@ -90,26 +100,114 @@ export function transformToES5(
          throw new Error("Babel transformation failed to produce code");
       }
 
-      // Patch Babel's _unsupportedIterableToArray to handle NodeList-like objects
-      let patchedCode = result.code;
-      patchedCode = patchedCode.replace(
-         /(function _unsupportedIterableToArray\([^)]+\)\s*\{\s*if\s*\([^)]+\)\s*\{\s*if\s*\([^)]+typeof[^)]+\)\s*return[^;]+;)/,
-         '$1 if ("object" == typeof r && "length" in r) return _arrayLikeToArray(r, a);',
-      );
-
-      // Parse patched code back to AST
-      const finalResult = Babel.transform(patchedCode, {
+      // Parse the transformed code back to AST
+      const finalResult = Babel.transform(result.code, {
          filename: "script.js",
          ast: true,
          code: false,
+         parserOpts: { sourceFilename: options.filename },
       });
 
       if (!finalResult?.ast?.program) {
-         throw new Error("Failed to parse patched code");
+         throw new Error("Failed to parse transformed code");
       }
 
-      return finalResult.ast.program as t.Program;
+      const program = finalResult.ast.program as t.Program;
+      if (result.map) {
+         mapLocations(program, decodeMappings(result.map.mappings));
+      }
+      program.extra = { ...program.extra, source: result.code };
+      return program;
    } catch (error: any) {
       throw new Error(`Failed to transform code: ${error.message}`);
    }
 }
+
+/**
+ * Generated column, original line (1-based) and original column of a source map segment
+ */
+type Segment = [number, number, number];
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Decode source map mappings into segments per generated line (0-based lines)
+ */
+function decodeMappings(mappings: string): Segment[][] {
+   const lines: Segment[][] = [];
+   // Fields are relative to the previous segment; only the generated column resets per line
+   const state = [0, 0, 0, 0, 0];
+   let previous: Segment | undefined;
+   for (const line of mappings.split(";")) {
+      const segments: Segment[] = [];
+      state[0] = 0;
+      for (const encoded of line.split(",")) {
+         if (!encoded) continue;
+         let field = 0;
+         let value = 0;
+         let shift = 0;
+         for (const char of encoded) {
+            const digit = BASE64.indexOf(char);
+            value += (digit & 31) << shift;
+            if (digit & 32) {
+               shift += 5;
+               continue;
+            }
+            state[field++] += value & 1 ? -(value >>> 1) : value >>> 1;
+            value = 0;
+            shift = 0;
+         }
+         if (field >= 4) segments.push([state[0], state[2] + 1, state[3]]);
+      }
+      // A line that starts where the previous one left off in the original usually starts with
+      // the end marker of the previous token, not with the code generated there
+      const first = segments[0];
+      if (segments.length > 1 && previous && first[1] === previous[1] && first[2] > previous[2]) {
+         segments.shift();
+      }
+      previous = segments.at(-1) ?? previous;
+      lines.push(segments);
+   }
+   return lines;
+}
+
+/**
+ * Original position of a generated position: the closest mapped segment before it on its line,
+ * else the line's first segment (generated keywords like `var` are often unmapped), else the
+ * last segment of an earlier line
+ */
+function originalPosition(lines: Segment[][], line: number, column: number): { line: number; column: number } | null {
+   const segments = lines[line - 1] ?? [];
+   let segment: Segment | undefined = segments[0];
+   for (const candidate of segments) {
+      if (candidate[0] <= column) segment = candidate;
+   }
+   for (let index = line - 2; !segment && index >= 0; index--) {
+      segment = lines[index].at(-1);
+   }
+   return segment ? { line: segment[1], column: segment[2] } : null;
+}
+
+/**
+ * Rewrite node locations from the generated code to the original code. Code without an
+ * original position, like Babel helpers, loses its location.
+ */
+function mapLocations(node: any, lines: Segment[][]): void {
+   if (Array.isArray(node)) {
+      for (const child of node) mapLocations(child, lines);
+      return;
+   }
+   if (node === null || typeof node !== "object") return;
+
+   if (node.loc) {
+      const start = originalPosition(lines, node.loc.start.line, node.loc.start.column);
+      const end = originalPosition(lines, node.loc.end.line, node.loc.end.column);
+      node.loc =
+         start && end
+            ? { ...node.loc, start: { ...node.loc.start, ...start }, end: { ...node.loc.end, ...end } }
+            : null;
+   }
+   for (const key in node) {
+      if (key !== "loc" && key !== "extra" && !key.endsWith("Comments")) mapLocations(node[key], lines);
+   }
+}